@@ -2,12 +2,18 @@ import { _Match } from './partials/public.match'
 import { _Try } from './partials/public.try'
 import { _Function } from './partials/public.function'
 import { _Pipe } from './partials/public.pipe'
+import { _Gen } from './partials/public.gen'
+import { _Retry } from './partials/public.retry'
+import { _Circuit } from './partials/public.circuit'
 
 export namespace _Flow
 {
 	// Aliasing `Match` namespace:
 	export import Match = _Match.Match
 	export import MatchMap = _Match.MatchMap
+	export import CatalogMatchMap = _Match.CatalogMatchMap
+	export import AsyncMatchMap = _Match.AsyncMatchMap
+	export import AllMatchMap = _Match.AllMatchMap
 
 	// Aliasing `Try` namespace:
 	export import Try = _Try
@@ -17,4 +23,16 @@ export namespace _Flow
 
 	// Aliasing `Function` namespace:
 	export import Pipe = _Pipe
+
+	// Aliasing `Gen` namespace:
+	export import Gen = _Gen.Gen
+
+	// Aliasing `Retry` namespace:
+	export import Retry = _Retry.Retry
+	export import RetryPolicy = _Retry.Policy
+	export import RetryExhaustedError = _Retry.RetryExhaustedError
+
+	// Aliasing `Circuit` namespace:
+	export import CircuitBreaker = _Circuit.CircuitBreaker
+	export import CircuitOpenError = _Circuit.CircuitOpenError
 }
\ No newline at end of file
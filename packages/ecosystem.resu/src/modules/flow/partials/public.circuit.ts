@@ -0,0 +1,274 @@
+import { _Result } from '../../result'
+import { _Utils } from '../../../types/utils'
+import { _Retry } from './public.retry'
+
+export namespace _Circuit
+{
+	type CIRCUIT_OPEN_NAME = typeof CIRCUIT_OPEN_NAME
+	const CIRCUIT_OPEN_NAME = 'CircuitOpen'
+
+	type STATE_CHANGE_TAG = typeof STATE_CHANGE_TAG
+	const STATE_CHANGE_TAG = 'CircuitStateChange'
+
+	// Circuit open class:
+	export class CircuitOpenError extends Error {
+		name = CIRCUIT_OPEN_NAME
+		message = 'Circuit is open'
+
+		/**
+		 * @param retryAfter Time in milliseconds until the circuit lets a trial call through.
+		 */
+		constructor (public retryAfter: number) {
+			super()
+		}
+	}
+
+	// Circuit open error:
+	export type CircuitOpenResult = _Result.Error<CircuitOpenError, CIRCUIT_OPEN_NAME>
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * State of the circuit:
+	 *
+	 * - `closed` — calls are passed to the function, failures are counted.
+	 * - `open` — calls are rejected without calling the function until the cool-down expires.
+	 * - `half-open` — trial calls are passed to the function to check if it has recovered.
+	 */
+	export type State = 'closed' | 'open' | 'half-open'
+
+	/**
+	 * Counters of the circuit.
+	 */
+	export type Metrics = {
+		/**
+		 * Current state of the circuit.
+		 */
+		state: State
+		/**
+		 * Number of calls passed to the function.
+		 */
+		calls: number
+		/**
+		 * Number of calls which did not fail.
+		 */
+		successes: number
+		/**
+		 * Number of failed calls.
+		 */
+		failures: number
+		/**
+		 * Number of failures in a row, reset by a success.
+		 */
+		consecutiveFailures: number
+		/**
+		 * Number of calls rejected with `CircuitOpen`.
+		 */
+		rejections: number
+		/**
+		 * Time when the circuit was opened last, `null` if it is not open.
+		 */
+		openedAt: number | null
+	}
+
+	/**
+	 * Change of the state of the circuit.
+	 */
+	export type StateChangeEvent = {
+		from: State
+		to: State
+		/**
+		 * Counters at the moment of the change.
+		 */
+		metrics: Metrics
+	}
+
+	/**
+	 * Options of the circuit breaker.
+	 *
+	 * @template ErrorResult Errors returned by the function.
+	 */
+	export type Options<ErrorResult extends _Result.AnyError = _Result.AnyError> = {
+		/**
+		 * Number of failures in a row which opens the circuit, `5` by default.
+		 */
+		threshold?: number
+		/**
+		 * Time in milliseconds after which the open circuit becomes half-open, `30000` by default.
+		 */
+		coolDown?: number
+		/**
+		 * Number of trial calls passed at the same time in the half-open state, `1` by default.
+		 */
+		halfOpenCalls?: number
+		/**
+		 * Tags of the errors counted as failures or a function deciding it. All errors are failures by default,
+		 * other errors are counted as successes (the dependency responded).
+		 */
+		failOn?: Array<Exclude<ErrorResult['tag'], null>> | ((error: ErrorResult) => boolean)
+		/**
+		 * Called on every change of the state.
+		 */
+		onStateChange?: (event: StateChangeEvent) => void
+		/**
+		 * Should the changes of the state be passed to `Logger.Engine`. The change is created as a result tagged
+		 * `CircuitStateChange` (`Result.Error` when the circuit opens, `Result.Ok` otherwise), so by default
+		 * it follows `Logger.LogOkResult` and `Logger.LogErrorResult`.
+		 */
+		log?: boolean
+		/**
+		 * Source of time, the system clock by default.
+		 */
+		clock?: Pick<_Retry.Clock, 'now'>
+	}
+
+	/**
+	 * Function protected by the circuit breaker.
+	 *
+	 * @template Args Arguments of the function.
+	 * @template Result Result of the function.
+	 */
+	export type CircuitBreaker<Args extends unknown[], Result> = {
+		/**
+		 * Call the function, or return {@link _Result.Error `Result.Error<CircuitOpenError, 'CircuitOpen'>`} while the circuit is open.
+		 */
+		(...args: Args): Promise<Result | CircuitOpenResult>
+		/**
+		 * Current state of the circuit.
+		 */
+		readonly state: State
+		/**
+		 * Get the counters of the circuit.
+		 */
+		metrics (): Metrics
+		/**
+		 * Close the circuit and reset the failures in a row.
+		 * Calls started before the reset are counted in the metrics, but do not change the state.
+		 */
+		reset (): void
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Protects the async function returning results with the circuit breaker. Failures are counted,
+	 * and after `threshold` failures in a row the circuit opens: calls return {@link _Result.Error `Result.Error<CircuitOpenError, 'CircuitOpen'>`}
+	 * without calling the function. After `coolDown` the circuit half-opens and lets trial calls through:
+	 * a success closes it, a failure opens it again.
+	 *
+	 * Values returned by the function are wrapped into {@link _Result.Ok `Result.Ok`} unless they are already a `Result`.
+	 * Exceptions are counted as failures and rethrown: wrap throwing code into {@link _Try.Async `Flow.Try.Async`}.
+	 *
+	 * @template Args Arguments of the function.
+	 * @template Return Value or `Result` returned by the function.
+	 * @param fn Protected function.
+	 * @param options Threshold, cool-down, failing errors and events of the circuit.
+	 *
+	 * @example
+	 * ```typescript
+	 * const getRates = Flow.CircuitBreaker(
+	 *   (currency: string) => Flow.Try.Async({ try: () => fetchRates(currency), catch: (error) => Result.ErrorFrom(error, 'Unavailable') }),
+	 *   { threshold: 3, coolDown: 10_000, failOn: ['Unavailable'], onStateChange: ({ from, to }) => console.warn(`${from} -> ${to}`) }
+	 * )
+	 *
+	 * const rates = await getRates('EUR')   // -> Result.Ok<Rates> | Result.Error<unknown, 'Unavailable'> | Result.Error<CircuitOpenError, 'CircuitOpen'>
+	 * getRates.metrics()                    // -> { state: 'closed', calls: 1, failures: 0, ... }
+	 * ```
+	 */
+	export function CircuitBreaker <
+		Args extends unknown[],
+		Return extends _Utils.AllowedReturn,
+	> (
+		fn: (...args: Args) => Return | Promise<Return>,
+		options?: Options<_Result.ExtractError<_Result.OkFromUnlessError<Return>>>
+	):
+		CircuitBreaker<Args, _Result.OkFromUnlessError<Return>>
+	{
+		const {
+			threshold = 5,
+			coolDown = 30_000,
+			halfOpenCalls = 1,
+			failOn = () => true,
+			onStateChange,
+			log,
+			clock = { now: () => Date.now() },
+		} = (options ?? {}) as unknown as Options
+
+		const isFailure = Array.isArray(failOn) ? (error: _Result.AnyError) => failOn.includes(error.tag as string) : failOn
+		const metrics: Metrics = { state: 'closed', calls: 0, successes: 0, failures: 0, consecutiveFailures: 0, rejections: 0, openedAt: null }
+		let trials = 0
+		// Поколение цепи, увеличивается при `reset`:
+		let generation = 0
+
+		// Смена состояния с уведомлением подписчика и логгера:
+		const setState = (state: State) => {
+			if (metrics.state === state) return
+			const event: StateChangeEvent = { from: metrics.state, to: state, metrics: { ...metrics, state } }
+
+			metrics.state = state
+			metrics.openedAt = state === 'open' ? clock.now() : state === 'closed' ? null : metrics.openedAt
+
+			onStateChange?.(event)
+			state === 'open'
+				? _Result.Error({ data: event, tag: STATE_CHANGE_TAG, log })
+				: _Result.Ok({ data: event, tag: STATE_CHANGE_TAG, log })
+		}
+
+		// Учет результата вызова:
+		const record = (isFailed: boolean, isTrial: boolean, callGeneration: number) => {
+			if (isFailed) metrics.failures++
+			else metrics.successes++
+
+			// Вызовы, начатые до `reset`, учитываются только в счетчиках и не меняют состояние цепи:
+			if (callGeneration !== generation) return
+			if (isTrial) trials--
+
+			if (isFailed) {
+				metrics.consecutiveFailures++
+				if (isTrial || metrics.consecutiveFailures >= threshold) setState('open')
+			}
+			else {
+				metrics.consecutiveFailures = 0
+				if (isTrial) setState('closed')
+			}
+		}
+
+		const breaker = async (...args: Args) => {
+			// Открытая цепь становится полуоткрытой по истечении времени охлаждения:
+			const retryAfter = metrics.openedAt === null ? 0 : metrics.openedAt + coolDown - clock.now()
+			if (metrics.state === 'open' && retryAfter <= 0) setState('half-open')
+
+			const isRejected = metrics.state === 'open' || (metrics.state === 'half-open' && trials >= halfOpenCalls)
+			if (isRejected) {
+				metrics.rejections++
+				return _Result.ErrorFrom(new CircuitOpenError(Math.max(0, retryAfter)), CIRCUIT_OPEN_NAME)
+			}
+
+			const isTrial = metrics.state === 'half-open'
+			const callGeneration = generation
+			if (isTrial) trials++
+			metrics.calls++
+
+			try {
+				const result = _Result.OkFromUnlessError(await fn(...args)) as _Result.Any
+				record(_Result.IsError(result) && isFailure(result), isTrial, callGeneration)
+				return result
+			}
+			catch (error) {
+				record(true, isTrial, callGeneration)
+				throw error
+			}
+		}
+
+		Object.defineProperty(breaker, 'state', { get: () => metrics.state })
+		breaker.metrics = () => ({ ...metrics })
+		breaker.reset = () => {
+			generation++
+			metrics.consecutiveFailures = 0
+			trials = 0
+			setState('closed')
+		}
+
+		return breaker as unknown as CircuitBreaker<Args, _Result.OkFromUnlessError<Return>>
+	}
+}
@@ -1,8 +1,86 @@
 import { _Utils } from '../../../types/utils'
 import { _Result } from '../../result'
+import type { StandardSchemaV1 } from '../../../types/standard-schema'
 
 export namespace _Function
 {
+	/**
+	 * Options of the wrapped function.
+	 *
+	 * @template S Schemas of the arguments.
+	 */
+	export type Options<S extends readonly _Result.Schema[]> = {
+		/**
+		 * Standard Schemas validating the arguments by position before the function runs.
+		 * The function receives the outputs of the schemas.
+		 */
+		args: S
+	}
+
+	/**
+	 * Maps the schemas of the arguments to their input types.
+	 *
+	 * @template S Schemas of the arguments.
+	 */
+	type InferInputs<S extends readonly _Result.Schema[]> =
+		| { -readonly [K in keyof S]: StandardSchemaV1.InferInput<S[K]> }
+
+	/**
+	 * Maps the schemas of the arguments to their output types.
+	 *
+	 * @template S Schemas of the arguments.
+	 */
+	type InferOutputs<S extends readonly _Result.Schema[]> =
+		| { -readonly [K in keyof S]: StandardSchemaV1.InferOutput<S[K]> }
+
+	/**
+	 * The wrapped function accepting the inputs of the schemas,
+	 * whose result also includes {@link _Result.ValidationError `Result.ValidationError`}.
+	 *
+	 * @template S Schemas of the arguments.
+	 * @template Fn Wrapped function accepting the outputs of the schemas.
+	 */
+	export type Guarded<
+		S extends readonly _Result.Schema[],
+		Fn extends (...args: any[]) => any,
+	> =
+		ReturnType<Fn> extends Promise<infer R>
+			? (...args: InferInputs<S>) => Promise<R | _Result.ValidationError>
+			: (...args: InferInputs<S>) => ReturnType<Fn> | _Result.ValidationError
+
+	/**
+	 * Create a Standard Schema validating the arguments tuple with the schemas by position.
+	 * Paths of the issues start with the index of the argument, extra arguments are passed as is.
+	 *
+	 * @param schemas - Schemas of the arguments.
+	 */
+	function argsSchema (schemas: readonly _Result.Schema[]): _Result.Schema<unknown[]> {
+		const combine = (outcomes: StandardSchemaV1.Result<unknown>[], args: unknown[]): StandardSchemaV1.Result<unknown[]> => {
+			const issues = outcomes.flatMap((outcome, i) => (outcome.issues ?? []).map((issue) => ({ ...issue, path: [i, ...(issue.path ?? [])] })))
+			if (issues.length) return { issues }
+
+			return { value: [...outcomes.map((outcome) => (outcome as StandardSchemaV1.SuccessResult<unknown>).value), ...args.slice(outcomes.length)] }
+		}
+
+		return {
+			'~standard': {
+				version: 1,
+				vendor: 'resu',
+				validate: (value) => {
+					const args = value as unknown[]
+					const outcomes = schemas.map((schema, i) => schema['~standard'].validate(args[i]))
+
+					// Если хотя бы одна схема асинхронная, ждём все:
+					return outcomes.some((outcome) => outcome instanceof Promise)
+						? Promise.all(outcomes).then((outcomes) => combine(outcomes, args))
+						: combine(outcomes as StandardSchemaV1.Result<unknown>[], args)
+				},
+			},
+		}
+	}
+
+	// ---------------------------------------------------------------------
+
 	/**
 	 * The result of the passed function will always be `Result`.
 	 * Restricts the type that the function can return in order to oblige
@@ -24,7 +102,19 @@ export namespace _Function
 	 * Restricts the type that the function can return in order to oblige
 	 * the user to return `Result`
 	 *
+	 * With `options.args`, the arguments are validated by Standard Schemas before the function runs.
+	 * Invalid arguments return {@link _Result.ValidationError `Result.ValidationError`} without calling it.
+	 * Throws `TypeError` if a schema validates asynchronously.
+	 *
 	 * @param fn - Original function.
+	 * @param options - Schemas of the arguments.
+	 *
+	 * @example
+	 * ```typescript
+	 * const createUser = Flow.Function.Sync((email: string, age: number) => ({ email, age }), { args: [EmailSchema, AgeSchema] })
+	 * createUser('not-an-email', 42)
+	 * // -> Result.Error<[{ message: 'Invalid email', path: [0] }], 'ValidationError'>
+	 * ```
 	 */
 	export function Sync<
 		Args extends any[],
@@ -33,8 +123,35 @@ export namespace _Function
 		fn: (...args: Args) => Return
 	):
 		Sync<Args, Return>
+
+	export function Sync<
+		const S extends readonly _Result.Schema[],
+		Return extends _Utils.FunctionAllowedReturn
+	> (
+		fn: (...args: InferOutputs<S>) => Return,
+		options: Options<S>
+	):
+		Guarded<S, Sync<InferOutputs<S>, Return>>
+
+	// Signature implementation:
+	export function Sync<
+		Args extends any[],
+		Return extends _Utils.FunctionAllowedReturn
+	> (
+		fn: (...args: Args) => Return,
+		options?: Options<_Result.Schema[]>
+	):
+		Sync<Args, Return>
 	{
+		const schema = options && argsSchema(options.args)
+
 		const wrappedFn = function (...args: Args) {
+			if (schema) {
+				const validated = _Result.Validate(schema, args)
+				if (_Result.IsError(validated)) return validated
+				args = validated.data as Args
+			}
+
 			const maybeResult = fn(...args)
 			const result = _Result.IsResult(maybeResult) ? maybeResult : _Result.OkFromUnlessError(maybeResult)
 			return result
@@ -65,7 +182,12 @@ export namespace _Function
 	 * Restricts the type that the function can return in order to oblige
 	 * the user to return `Result`
 	 *
+	 * With `options.args`, the arguments are validated by Standard Schemas (synchronous or asynchronous)
+	 * before the function runs. Invalid arguments return {@link _Result.ValidationError `Result.ValidationError`}
+	 * without calling it.
+	 *
 	 * @param fn - Original function.
+	 * @param options - Schemas of the arguments.
 	 */
 	export function Async<
 		Args extends any[],
@@ -74,12 +196,130 @@ export namespace _Function
 		fn: (...args: Args) => Promise<Return>
 	):
 		Async<Args, Return>
+
+	export function Async<
+		const S extends readonly _Result.Schema[],
+		Return extends _Utils.FunctionAllowedReturn
+	> (
+		fn: (...args: InferOutputs<S>) => Promise<Return>,
+		options: Options<S>
+	):
+		Guarded<S, Async<InferOutputs<S>, Return>>
+
+	// Signature implementation:
+	export function Async<
+		Args extends any[],
+		Return extends _Utils.FunctionAllowedReturn
+	> (
+		fn: (...args: Args) => Promise<Return>,
+		options?: Options<_Result.Schema[]>
+	):
+		Async<Args, Return>
 	{
+		const schema = options && argsSchema(options.args)
+
 		const wrappedFn = async function (...args: Args) {
+			if (schema) {
+				const validated = await _Result.Validate.Async(schema, args)
+				if (_Result.IsError(validated)) return validated
+				args = validated.data as Args
+			}
+
 			const maybeResult = await fn(...args)
 			const result = _Result.IsResult(maybeResult) ? maybeResult : _Result.OkFromUnlessError(maybeResult)
 			return result
 		}
 		return wrappedFn as Async<Args, Return>
 	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Options of the decorated method.
+	 *
+	 * @template Tag Tag of the error created from a thrown exception.
+	 */
+	export type MethodOptions<Tag extends string = string> = {
+		/**
+		 * Tag of the error created from a thrown exception (or a rejected promise), or a function
+		 * converting the exception into the error result. Exceptions are rethrown by default.
+		 */
+		catch?: Tag | ((error: unknown) => _Result.AnyError)
+	}
+
+	/**
+	 * Standard class method decorator. The decorated method must return the allowed values
+	 * (only `Result` with the enabled `FunctionStrictSetting`) or a promise of them.
+	 *
+	 * @template This Class of the method.
+	 * @template Args Args of the method.
+	 * @template Return Return type of the method.
+	 */
+	export type Method = <
+		This,
+		Args extends any[],
+		Return extends _Utils.FunctionAllowedReturn | Promise<_Utils.FunctionAllowedReturn>
+	> (
+		target: (this: This, ...args: Args) => Return,
+		context: ClassMethodDecoratorContext<This, (this: This, ...args: Args) => Return>
+	) =>
+		(this: This, ...args: Args) => Return
+
+	/**
+	 * Standard (TC39) decorator of class methods: the result of the method will always be `Result`,
+	 * as with {@link Sync `Flow.Function.Sync`} and {@link Async `Flow.Function.Async`}. Methods returning
+	 * a promise (including `async` methods) are detected automatically, `this` is passed as is.
+	 *
+	 * With `options.catch`, thrown exceptions and rejected promises are converted into the error result:
+	 * the tag creates {@link _Result.Error `Result.Error<unknown, Tag>`} with the exception as the data.
+	 * Without it, they are rethrown. {@link _Result.ResultError `ResultError`} (e.g. thrown by `Result.Unwrap`)
+	 * is not passed to `catch`, its result is returned as is, as in `Flow.Try`.
+	 *
+	 * Decorators cannot change the type of the method: plain values are wrapped into `Result.Ok` at runtime,
+	 * but the declared return type stays as is. Declare the return type as the result, including the error
+	 * of `options.catch`. With the enabled `FunctionStrictSetting`, only methods returning `Result` can be decorated.
+	 *
+	 * @param options - Conversion of the exceptions.
+	 *
+	 * @example
+	 * ```typescript
+	 * class UserService {
+	 *   @Flow.Function.Method({ catch: 'Unexpected' })
+	 *   async getUser (id: string): Promise<Result.Ok<User> | Result.Error<string, 'NotFound'> | Result.Error<unknown, 'Unexpected'>> {
+	 *     const user = await this.db.findUser(id)
+	 *     return user ? Result.OkFrom(user, null) : Result.ErrorFrom(id, 'NotFound')
+	 *   }
+	 * }
+	 * ```
+	 */
+	export function Method<Tag extends string> (
+		options?: MethodOptions<Tag>
+	):
+		Method
+	{
+		const toError = typeof options?.catch === 'string'
+			? (error: unknown) => _Result.ErrorFrom(error, options.catch as Tag)
+			: options?.catch
+
+		return (target) => function (...args) {
+			type Return = ReturnType<typeof target>
+
+			const toResult = (maybeResult: unknown) => _Result.IsResult(maybeResult) ? maybeResult : _Result.OkFromUnlessError(maybeResult)
+
+			// `ResultError` возвращает свой результат, без `catch` остальные исключения пробрасываются дальше:
+			const onError = (error: unknown) => {
+				if (error instanceof _Result.ResultError) return error.cause
+				if (!toError) throw error
+				return toError(error)
+			}
+
+			try {
+				const maybeResult = target.apply(this, args)
+				return (maybeResult instanceof Promise ? maybeResult.then(toResult, onError) : toResult(maybeResult)) as Return
+			}
+			catch (error) {
+				return onError(error) as Return
+			}
+		}
+	}
 }
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { _Result } from '../../result'
+import { _Utils } from '../../../types/utils'
+
+export namespace _Gen
+{
+	/**
+	 * Result of the generator: the union of every yielded error with the returned result.
+	 *
+	 * @template Yielded Errors yielded by `yield*`.
+	 * @template Return Value or `Result` returned by the generator.
+	 */
+	type GenReturn<
+		Yielded extends _Result.AnyError,
+		Return extends _Utils.AllowedReturn
+	> =
+		| _Result.OkFromUnlessError<Return>
+		| Yielded
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Runs the generator with the do-notation for {@link _Result.Any `Result`} objects.
+	 *
+	 * Inside the generator `yield*` unwraps the result: the data of {@link _Result.Ok `Result.Ok`}
+	 * is returned, and {@link _Result.Error `Result.Error`} terminates the generator (its `finally`
+	 * blocks are run) and is returned as the result. The returned value is wrapped into
+	 * {@link _Result.Ok `Result.Ok`} unless it is already a `Result`.
+	 *
+	 * The result type is the union of every yielded error with the returned result.
+	 *
+	 * @template Yielded Errors yielded by `yield*`.
+	 * @template Return Value or `Result` returned by the generator.
+	 * @param fn Generator function.
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = Flow.Gen(function * () {
+	 *   const user = yield * getUser(id)       // -> Result.Ok<User> | Result.Error<string, 'NotFound'>
+	 *   const org = yield * getOrg(user.orgId) // -> Result.Ok<Org> | Result.Error<string, 'Forbidden'>
+	 *   return Result.OkFrom({ user, org })
+	 * })
+	 * // -> Result.Ok<{ user: User, org: Org }> | Result.Error<string, 'NotFound'> | Result.Error<string, 'Forbidden'>
+	 * ```
+	 */
+	export function Gen <
+		Yielded extends _Result.AnyError = never,
+		Return extends _Utils.AllowedReturn = never,
+	> (
+		fn: () => Generator<Yielded, Return, unknown>
+	):
+		GenReturn<Yielded, Return>
+	{
+		const iterator = fn()
+		const step = iterator.next()
+		if (step.done) return _Result.OkFromUnlessError(step.value) as GenReturn<Yielded, Return>
+
+		// Ошибка прерывает генератор, `return` выполняет его блоки `finally`:
+		iterator.return(undefined as never)
+		return step.value
+	}
+
+	export namespace Gen
+	{
+		/**
+		 * Runs the async generator with the do-notation for {@link _Result.Any `Result`} objects,
+		 * see {@link Gen `Flow.Gen`}. Promises of results are awaited before unwrapping: `yield * await load()`.
+		 *
+		 * @template Yielded Errors yielded by `yield*`.
+		 * @template Return Value or `Result` returned by the generator.
+		 * @param fn Async generator function.
+		 *
+		 * @example
+		 * ```typescript
+		 * const result = await Flow.Gen.Async(async function * () {
+		 *   const user = yield * await fetchUser(id)
+		 *   const org = yield * await fetchOrg(user.orgId)
+		 *   return { user, org }
+		 * })
+		 * // -> Result.Ok<{ user: User, org: Org }> | Result.Error<...>
+		 * ```
+		 */
+		export async function Async <
+			Yielded extends _Result.AnyError = never,
+			Return extends _Utils.AllowedReturn = never,
+		> (
+			fn: () => AsyncGenerator<Yielded, Return, unknown>
+		):
+			Promise<GenReturn<Yielded, Return>>
+		{
+			const iterator = fn()
+			const step = await iterator.next()
+			if (step.done) return _Result.OkFromUnlessError(step.value) as GenReturn<Yielded, Return>
+
+			// Ошибка прерывает генератор, `return` выполняет его блоки `finally`:
+			await iterator.return(undefined as never)
+			return step.value
+		}
+	}
+}
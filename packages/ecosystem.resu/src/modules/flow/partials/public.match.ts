@@ -1,5 +1,6 @@
 import { _Utils } from '../../../types/utils'
 import { _Result } from '../../result'
+import { _Try } from './public.try'
 
 export namespace _Match
 {
@@ -98,6 +99,17 @@ export namespace _Match
 		}, Extract<Status, Result['status']>>
 	>
 
+	/**
+	 * Builds a map of `cause:tag` strings to callbacks for error results
+	 * whose chain of causes contains the tag.
+	 *
+	 * @template Result Any results.
+	 */
+	type BuildMatchMapByCause<Result extends _Result.Any> =
+		| [GetResultByStatus<Result, 'error'>] extends [never]
+			? {}
+			: { [K in `cause:${string}`]?: MatchResultCallback<GetResultByStatus<Result, 'error'>> }
+
 	/**
 	 * Сreate a match map.
 	 *
@@ -106,6 +118,19 @@ export namespace _Match
 	export type MatchMap<Result extends _Result.Any> =
 		& BuildMatchMapByStatus<Result, 'ok'>
 		& BuildMatchMapByStatus<Result, 'error'>
+		& BuildMatchMapByCause<Result>
+
+	/**
+	 * Сreate a match map with a required handler for every member of the catalog
+	 * created by {@link _Result.Define `Result.Define`}. Use it with `satisfies`
+	 * to keep the return types of the handlers.
+	 *
+	 * @template Catalog Catalog of results.
+	 */
+	export type CatalogMatchMap<Catalog extends _Result.Catalog> =
+		| _Utils.Prettify<{
+			[U in _Result.Members<Catalog> as `${U['status']}:${U['tag']}`]: MatchResultCallback<U>
+		}>
 
 	/**
 	 * Get a status and tag object based on the match name.
@@ -144,6 +169,323 @@ export namespace _Match
 		| Exclude<Result, GetTagAndStatusObjectFromMatchMap<Matcher>>
 		| GetRetursResultsFromMatches<Matcher>
 
+	/**
+	 * Сreate a match map whose handlers may return promises.
+	 *
+	 * @template Result Any results.
+	 */
+	export type AsyncMatchMap<Result extends _Result.Any> = {
+		[K in keyof MatchMap<Result>]: MatchMap<Result>[K] extends ((result: infer R) => any) | undefined
+			? (result: R) => _Utils.AllowedReturn | Promise<_Utils.AllowedReturn>
+			: never
+	}
+
+	/**
+	 * Get results from the resolved returns of the match map functions.
+	 *
+	 * @template Matcher Match map.
+	 */
+	type GetAwaitedResultsFromMatches<Matcher> =
+		| Matcher[keyof Matcher] extends infer F extends (...args: any[]) => any
+			? Awaited<ReturnType<F>> extends infer U
+				? _Result.OkFromUnlessError<U>
+				: never
+			: never
+
+	/**
+	 * Wrap the value returned by `catch` into {@link _Result.Error `Result.Error`} if it is not already a `Result`.
+	 *
+	 * @template Error Failure value or `Result`.
+	 */
+	type CatchReturn<Error> =
+		| [Error] extends [never] ? never
+		: Error extends _Result.Any ? Error
+		: _Result.Error<Error>
+
+	/**
+	 * Get the match key of the result: `status:tag` for tagged results and `status` for untagged ones.
+	 *
+	 * @template Result Any results.
+	 */
+	type GetMatchKey<Result extends _Result.Any> =
+		| Result extends { status: infer S extends string, tag: infer T }
+			? [T] extends [string] ? `${S}:${T}` : S
+			: never
+
+	/**
+	 * Keys allowed in the exhaustive match map.
+	 *
+	 * @template Result Any results.
+	 */
+	type ExhaustiveMatchKeys<Result extends _Result.Any> =
+		| GetMatchKey<Result>
+		| Result['status']
+		| '_'
+		| ([GetResultByStatus<Result, 'error'>] extends [never] ? never : `cause:${string}`)
+
+	/**
+	 * Filters Result union by results not covered by the keys
+	 * (neither by the `status:tag` key nor by the `status` key).
+	 *
+	 * @template Result Any results.
+	 * @template Keys Keys of the match map.
+	 */
+	type GetRemainingResults<
+		Result extends _Result.Any,
+		Keys extends PropertyKey
+	> =
+		| Result extends any
+			? GetMatchKey<Result> extends Keys ? never
+			: Result['status'] extends Keys ? never
+			: Result
+			: never
+
+	/**
+	 * Get the results passed to the handler of the key:
+	 * - `_` receives the results not covered by other keys;
+	 * - `cause:tag` receives error results;
+	 * - `status:tag` receives the results with the status and the tag;
+	 * - `status` receives the results with the status not covered by `status:tag` keys.
+	 *
+	 * @template Result Any results.
+	 * @template Key Key of the match map.
+	 * @template Keys All keys of the match map.
+	 */
+	type GetResultByMatchKey<
+		Result extends _Result.Any,
+		Key extends PropertyKey,
+		Keys extends PropertyKey
+	> =
+		| Key extends '_' ? GetRemainingResults<Result, Keys>
+		: Key extends `cause:${string}` ? GetResultByStatus<Result, 'error'>
+		: Key extends `${infer S extends _Result.Any['status']}:${infer T}` ? GetResultByTagAndStatus<Result, S, T>
+		: GetRemainingResults<GetResultByStatus<Result, Key & _Result.Any['status']>, Exclude<Keys, Key>>
+
+	/**
+	 * Сreate an exhaustive match map from its keys.
+	 *
+	 * @template Result Any results.
+	 * @template Keys Keys of the match map.
+	 */
+	type ExhaustiveMatchMap<
+		Result extends _Result.Any,
+		Keys extends PropertyKey
+	> = {
+		[K in Keys]: MatchResultCallback<GetResultByMatchKey<Result, K, Keys>>
+	}
+
+	/**
+	 * Handlers required for the results not covered by the keys.
+	 * Missing handlers are reported by name in the type error.
+	 *
+	 * @template Result Any results.
+	 * @template Keys Keys of the match map.
+	 */
+	type MissingHandlers<
+		Result extends _Result.Any,
+		Keys extends PropertyKey
+	> =
+		| '_' extends Keys
+			? {}
+			: { [K in GetMatchKey<GetRemainingResults<Result, Keys>>]: MatchResultCallback<GetResultByMatchKey<Result, K, Keys>> }
+
+	/**
+	 * Keys allowed in guard-based matching.
+	 *
+	 * @template Result Any results.
+	 */
+	type WhenKeys<Result extends _Result.Any> =
+		| Exclude<ExhaustiveMatchKeys<Result>, '_'>
+
+	/**
+	 * Get the results matched by the key of guard-based matching.
+	 *
+	 * @template Result Any results.
+	 * @template Key Key of the case.
+	 */
+	type GetResultByWhenKey<
+		Result extends _Result.Any,
+		Key extends PropertyKey
+	> =
+		| Key extends `cause:${string}` ? GetResultByStatus<Result, 'error'>
+		: Key extends `${infer S extends _Result.Any['status']}:${infer T}` ? GetResultByTagAndStatus<Result, S, T>
+		: GetResultByStatus<Result, Key & _Result.Any['status']>
+
+	/**
+	 * Structural pattern of the data: every property of the pattern must be equal to
+	 * the property of the data, arrays must have the same length.
+	 *
+	 * @template Data Data of the result.
+	 */
+	type DataPattern<Data> =
+		| Data extends readonly (infer E)[] ? readonly DataPattern<E>[]
+		: Data extends object ? { readonly [K in keyof Data]?: DataPattern<Data[K]> }
+		: Data
+
+	/**
+	 * Replace the data of the results with the narrowed data.
+	 *
+	 * @template Result Any results.
+	 * @template Data Narrowed data.
+	 */
+	type WithData<
+		Result extends _Result.Any,
+		Data
+	> =
+		| Result extends any ? _Utils.Prettify<Omit<Result, 'data'> & { data: Data }> : never
+
+	/**
+	 * Segments of the tuple match key for one result: `status:tag`, `status` or `*` for any result.
+	 * Tags containing a comma are excluded, since commas separate the segments.
+	 *
+	 * @template Result Any results.
+	 */
+	type AllMatchSegment<Result extends _Result.Any> =
+		| Exclude<GetMatchKey<Result>, `${string},${string}`>
+		| Result['status']
+		| '*'
+
+	/**
+	 * Keys of the tuple match map: segments of every result joined by commas.
+	 *
+	 * @template Results Tuple of any results.
+	 */
+	type AllMatchKeys<Results extends readonly _Result.Any[]> =
+		| Results extends readonly [infer R extends _Result.Any]
+			? AllMatchSegment<R>
+		: Results extends readonly [infer R extends _Result.Any, ...infer Rest extends readonly _Result.Any[]]
+			? `${AllMatchSegment<R>},${AllMatchKeys<Rest>}`
+		: never
+
+	/**
+	 * Get the tuple of results matched by the key of the tuple match map.
+	 *
+	 * @template Results Tuple of any results.
+	 * @template Key Key of the tuple match map.
+	 */
+	type GetResultsByAllKey<
+		Results extends readonly _Result.Any[],
+		Key extends string
+	> =
+		| Results extends readonly [infer R extends _Result.Any, ...infer Rest extends readonly _Result.Any[]]
+			? Key extends `${infer Segment},${infer KeyRest}`
+				? [GetResultBySegment<R, Segment>, ...GetResultsByAllKey<Rest, KeyRest>]
+				: [GetResultBySegment<R, Key>]
+			: []
+
+	/**
+	 * Get the results matched by the segment of the tuple match key.
+	 *
+	 * @template Result Any results.
+	 * @template Segment Segment of the key.
+	 */
+	type GetResultBySegment<
+		Result extends _Result.Any,
+		Segment extends string
+	> =
+		| Segment extends '*' ? Result : GetResultByWhenKey<Result, Segment>
+
+	/**
+	 * Сreate a match map for the combinations of results. The `_` key is required
+	 * and handles the combinations not covered by other keys.
+	 *
+	 * @template Results Tuple of any results.
+	 */
+	export type AllMatchMap<Results extends readonly _Result.Any[]> =
+		& { [K in AllMatchKeys<Results>]?: (results: GetResultsByAllKey<Results, K>) => _Utils.AllowedReturn }
+		& { _: (results: Results) => _Utils.AllowedReturn }
+
+	/**
+	 * Forbids the keys not generated from the results, so that a misspelled key is a type error.
+	 *
+	 * @template Results Tuple of any results.
+	 * @template Matcher Tuple match map.
+	 */
+	type UnknownAllMatchKeys<
+		Results extends readonly _Result.Any[],
+		Matcher
+	> = {
+		[K in keyof Matcher]: K extends keyof AllMatchMap<Results> ? unknown : never
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Check if the code runs in development mode (`NODE_ENV` is not `production`).
+	 */
+	function isDevMode (): boolean {
+		const env = (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env
+		return env?.NODE_ENV !== 'production'
+	}
+
+	/**
+	 * Get the match key of the result: `status:tag` for tagged results and `status` for untagged ones.
+	 *
+	 * @param result - Any result.
+	 */
+	function getMatchKey (result: _Result.Any): string {
+		return result.tag ? `${result.status}:${result.tag}` : `${result.status}`
+	}
+
+	/**
+	 * Find the handler of the result in the following order: `status:tag`,
+	 * `cause:tag` for every tag in the chain of causes of an error, `status`.
+	 *
+	 * @param result - Any result.
+	 * @param matcher - Match map.
+	 */
+	function findHandler (result: _Result.Any, matcher: object): MatchResultCallback<_Result.Any> | undefined {
+		const handler = matcher[getMatchKey(result) as keyof typeof matcher] || findCauseHandler(result, matcher) || matcher[result.status as keyof typeof matcher]
+		return handler as MatchResultCallback<_Result.Any> | undefined
+	}
+
+	/**
+	 * Find the `cause:tag` handler for the nearest tag in the chain of causes of the error.
+	 *
+	 * @param result - Any result.
+	 * @param matcher - Match map.
+	 */
+	function findCauseHandler (result: _Result.Any, matcher: object): unknown {
+		if (!_Result.IsError(result)) return undefined
+
+		for (const item of [result, ..._Result.Causes(result)]) {
+			const handler = _Result.IsError(item) && item.tag ? matcher[`cause:${item.tag}` as keyof typeof matcher] : undefined
+			if (handler) return handler
+		}
+		return undefined
+	}
+
+	/**
+	 * Check if the key matches the result: `status:tag`, `status`
+	 * or `cause:tag` for any tag in the chain of causes of an error.
+	 *
+	 * @param result - Any result.
+	 * @param key - Key of the case.
+	 */
+	function matchesKey (result: _Result.Any, key: string): boolean {
+		if (key.startsWith('cause:')) return _Result.IsError(result) && _Result.CausedBy(result, key.slice('cause:'.length))
+		return key === getMatchKey(result) || key === result.status
+	}
+
+	/**
+	 * Check if the data matches the structural pattern.
+	 *
+	 * @param data - Data of the result.
+	 * @param pattern - Structural pattern.
+	 */
+	function matchesPattern (data: unknown, pattern: unknown): boolean {
+		if (pattern === null || typeof pattern !== 'object') return Object.is(data, pattern)
+		if (data === null || typeof data !== 'object') return false
+
+		if (Array.isArray(pattern)) {
+			return Array.isArray(data)
+				&& data.length === pattern.length
+				&& pattern.every((item, i) => matchesPattern(data[i], item))
+		}
+
+		return Object.entries(pattern).every(([key, item]) => matchesPattern((data as Record<string, unknown>)[key], item))
+	}
+
 	// ---------------------------------------------------------------------
 
 	/**
@@ -177,6 +519,9 @@ export namespace _Match
 	 * - If the handler returns a value, it is wrapped using `Result.OkFrom`.
 	 * - If no handler is found, the original `result` is returned.
 	 *
+	 * Handlers are looked up in the following order: `status:tag`, `cause:tag` for every tag
+	 * in the chain of causes of an error (see {@link _Result.CausedBy `Result.CausedBy`}), `status`.
+	 *
 	 * @param result - Any results.
 	 * @param matcher - An object containing handlers for different `status` or `status:tag` cases.
 	 */
@@ -199,11 +544,603 @@ export namespace _Match
 	):
 		Match<Result, Matcher>
 	{
-		const matchKey = result.tag ? `${result.status}:${result.tag}` : `${result.status}`
-		const handler = matcher[matchKey as keyof Matcher] || matcher[result.status as keyof Matcher]
+		const handler = findHandler(result, matcher)
 		if (!handler) return result as Match<Result, Matcher>
 
-		const handlerResult = (handler as MatchResultCallback<Result>)(result)
+		const handlerResult = handler(result)
 		return _Result.OkFromUnlessError(handlerResult) as Match<Result, Matcher>
 	}
+
+	export namespace Match
+	{
+		/**
+		 * Exhaustive pattern matching: the result is always one of the results of the handlers.
+		 *
+		 * @template Matcher Match map.
+		 */
+		export type Exhaustive<Matcher> =
+			| _Utils.Prettify<GetRetursResultsFromMatches<Matcher>>
+
+		/**
+		 * Exhaustive pattern matching. Unlike {@link _Match.Match `Flow.Match`}, the match map must
+		 * contain a handler for every `status:tag` combination of the input union (or `status` for untagged
+		 * results), otherwise the type error names the missing keys.
+		 *
+		 * - The `status` key handles the results with the status not covered by `status:tag` keys.
+		 * - The `_` key handles all results not covered by other keys and makes the other keys optional.
+		 * - `cause:tag` keys are allowed, but do not count towards coverage.
+		 *
+		 * In development mode (`NODE_ENV` is not `production`), an unexpected result without a handler
+		 * throws an error. In production, it is returned as is.
+		 *
+		 * @param result - Any results.
+		 * @param matcher - An object containing handlers for every `status:tag` case or the `_` key.
+		 *
+		 * @example
+		 * ```typescript
+		 * const message = Flow.Match.Exhaustive(result, {
+		 * 	'ok:UserLoaded': (result) => result.data.name,
+		 * 	'error:NotFound': () => 'Not found',
+		 * 	_: (result) => `Unexpected ${result.tag}`,
+		 * })
+		 * ```
+		 */
+		export function Exhaustive<
+			Result extends _Result.Any,
+			Keys extends ExhaustiveMatchKeys<Result>,
+			Matcher,
+		> (
+			result: Result,
+			matcher: Matcher & ExhaustiveMatchMap<Result, Keys> & MissingHandlers<Result, Keys>
+		):
+			Exhaustive<Matcher>
+		{
+			const handler = findHandler(result, matcher) || (matcher as { _?: MatchResultCallback<Result> })._
+			if (!handler) {
+				if (isDevMode()) throw new globalThis.Error(`Flow.Match.Exhaustive: no handler for "${getMatchKey(result)}"`)
+				return result as Exhaustive<Matcher>
+			}
+
+			const handlerResult = handler(result)
+			return _Result.OkFromUnlessError(handlerResult) as Exhaustive<Matcher>
+		}
+
+		// ---------------------------------------------------------------------
+
+		/**
+		 * Options of asynchronous pattern matching.
+		 *
+		 * @template Error Failure value or `Result` returned by `catch`.
+		 */
+		export type AsyncOptions<Error> = {
+			/**
+			 * Converts an error thrown by a handler (or a rejection of its promise) into a result,
+			 * the same way as {@link _Try.Async `Flow.Try.Async`} does.
+			 * Without `catch`, the returned promise is rejected.
+			 */
+			catch: (error: unknown) => Error
+		}
+
+		/**
+		 * Asynchronous pattern matching: the resolved results of the handlers,
+		 * the results without a handler and the result of `catch`.
+		 *
+		 * @template Result Any results.
+		 * @template Matcher Match map.
+		 * @template Error Failure value or `Result` returned by `catch`.
+		 */
+		export type Async<
+			Result extends _Result.Any,
+			Matcher extends AsyncMatchMap<Result>,
+			Error = never,
+		> =
+			| Promise<_Utils.Prettify<
+				| Exclude<Result, GetTagAndStatusObjectFromMatchMap<Matcher>>
+				| GetAwaitedResultsFromMatches<Matcher>
+				| CatchReturn<Error>
+			>>
+
+		/**
+		 * Asynchronous {@link _Match.Match `Flow.Match`}: accepts a result or a promise of a result,
+		 * handlers may be asynchronous. Handlers are looked up in the same order as in `Flow.Match`.
+		 *
+		 * If `options.catch` is passed, an error thrown by a handler is converted into a result by it.
+		 * A value returned by `catch` is wrapped into `Result.Error` unless it is already a `Result`.
+		 * {@link _Result.ResultError `ResultError`} thrown by a handler (e.g. by `Result.Unwrap`) is not passed
+		 * to `catch`, its result is returned as is. Its type is not included in the return type, since any result can be thrown.
+		 *
+		 * @param result - Any result or a promise of it.
+		 * @param matcher - An object containing handlers for different `status` or `status:tag` cases.
+		 * @param options - Error handling options.
+		 *
+		 * @example
+		 * ```typescript
+		 * const result = await Flow.Match.Async(loadUser(id), {
+		 * 	'ok:UserLoaded': async (result) => loadOrders(result.data.id),
+		 * 	'error:NotFound': () => [],
+		 * }, {
+		 * 	catch: (error) => Result.ErrorFrom(error, 'OrdersNotLoaded'),
+		 * })
+		 * ```
+		 */
+		export function Async<
+			Result extends _Result.Any,
+			Matcher extends AsyncMatchMap<Result>,
+			Error = never,
+		> (
+			result: Result | Promise<Result>,
+			matcher: Matcher,
+			options?: AsyncOptions<Error>
+		):
+			Async<Result, Matcher, Error>
+
+		// Signature implementation:
+		export async function Async<
+			Result extends _Result.Any,
+			Matcher extends AsyncMatchMap<Result>,
+			Error = never,
+		> (
+			result: Result | Promise<Result>,
+			matcher: Matcher,
+			options?: AsyncOptions<Error>
+		):
+			Promise<unknown>
+		{
+			const resolvedResult = await result
+			const handler = findHandler(resolvedResult, matcher)
+			if (!handler) return resolvedResult
+
+			if (!options?.catch) return _Result.OkFromUnlessError(await handler(resolvedResult))
+
+			return _Try.Async({
+				try: async () => handler(resolvedResult),
+				catch: options.catch,
+			})
+		}
+
+		// ---------------------------------------------------------------------
+
+		/**
+		 * Builder of guard-based matching.
+		 *
+		 * @template Result Any results.
+		 * @template Remaining Results not handled by cases without guards.
+		 * @template Returned Values returned by the handlers.
+		 */
+		export type When<
+			Result extends _Result.Any,
+			Remaining extends _Result.Any = Result,
+			Returned = never,
+		> = {
+			/**
+			 * Add a case handling every result matching the key.
+			 *
+			 * @param key - `status:tag`, `status` or `cause:tag`.
+			 * @param handler - Handler of the matched result.
+			 */
+			on<
+				K extends WhenKeys<Result>,
+				U extends _Utils.AllowedReturn,
+			> (
+				key: K,
+				handler: (result: GetResultByWhenKey<Result, K>) => U
+			):
+				When<Result, K extends `cause:${string}` ? Remaining : Exclude<Remaining, GetResultByWhenKey<Result, K>>, Returned | U>
+
+			/**
+			 * Add a case handling the results matching the key whose data passes the type guard.
+			 * The handler receives the result with the narrowed data.
+			 *
+			 * @param key - `status:tag`, `status` or `cause:tag`.
+			 * @param guard - Type guard of the data.
+			 * @param handler - Handler of the matched result.
+			 */
+			on<
+				K extends WhenKeys<Result>,
+				N extends GetResultByWhenKey<Result, K>['data'],
+				U extends _Utils.AllowedReturn,
+			> (
+				key: K,
+				guard: (data: GetResultByWhenKey<Result, K>['data']) => data is N,
+				handler: (result: WithData<GetResultByWhenKey<Result, K>, N>) => U
+			):
+				When<Result, Remaining, Returned | U>
+
+			/**
+			 * Add a case handling the results matching the key whose data passes the predicate.
+			 *
+			 * @param key - `status:tag`, `status` or `cause:tag`.
+			 * @param guard - Predicate of the data.
+			 * @param handler - Handler of the matched result.
+			 */
+			on<
+				K extends WhenKeys<Result>,
+				U extends _Utils.AllowedReturn,
+			> (
+				key: K,
+				guard: (data: GetResultByWhenKey<Result, K>['data']) => boolean,
+				handler: (result: GetResultByWhenKey<Result, K>) => U
+			):
+				When<Result, Remaining, Returned | U>
+
+			/**
+			 * Add a case handling the results matching the key whose data matches the structural pattern.
+			 * The handler receives the result with the data narrowed by the pattern.
+			 *
+			 * @param key - `status:tag`, `status` or `cause:tag`.
+			 * @param pattern - Structural pattern of the data.
+			 * @param handler - Handler of the matched result.
+			 */
+			on<
+				K extends WhenKeys<Result>,
+				const P extends DataPattern<GetResultByWhenKey<Result, K>['data']>,
+				U extends _Utils.AllowedReturn,
+			> (
+				key: K,
+				pattern: P,
+				handler: (result: WithData<GetResultByWhenKey<Result, K>, GetResultByWhenKey<Result, K>['data'] & P>) => U
+			):
+				When<Result, Remaining, Returned | U>
+
+			/**
+			 * Run the matching. The results not matched by any case are passed to the fallback.
+			 *
+			 * @param fallback - Handler of the remaining results.
+			 */
+			otherwise<U extends _Utils.AllowedReturn> (
+				fallback: (result: Remaining) => U
+			):
+				_Utils.Prettify<_Result.OkFromUnlessError<Returned | U>>
+
+			/**
+			 * Run the matching. The results not matched by any case are returned as is.
+			 */
+			run ():
+				_Utils.Prettify<Remaining | _Result.OkFromUnlessError<Returned>>
+		}
+
+		/**
+		 * Case of guard-based matching.
+		 */
+		type WhenCase = {
+			key: string
+			guard?: unknown
+			handler: MatchResultCallback<_Result.Any>
+		}
+
+		/**
+		 * Create a builder of guard-based matching with the cases.
+		 *
+		 * @param result - Any result.
+		 * @param cases - Cases in the order of evaluation.
+		 */
+		function createWhen (result: _Result.Any, cases: WhenCase[]): When<_Result.Any> {
+			const resolve = (fallback?: MatchResultCallback<_Result.Any>) => {
+				const matchedCase = cases.find(({ key, guard }) => {
+					if (!matchesKey(result, key)) return false
+					if (guard === undefined) return true
+					return typeof guard === 'function' ? guard(result.data) : matchesPattern(result.data, guard)
+				})
+
+				const handler = matchedCase?.handler ?? fallback
+				return handler ? _Result.OkFromUnlessError(handler(result)) : result
+			}
+
+			return {
+				on: (key: string, ...args: unknown[]) => {
+					// Обработчик всегда передаётся последним, перед ним — необязательный guard:
+					const handler = args[args.length - 1] as MatchResultCallback<_Result.Any>
+					const guard = args.length > 1 ? args[0] : undefined
+					return createWhen(result, [...cases, { key, guard, handler }])
+				},
+				otherwise: resolve,
+				run: () => resolve(),
+			} as When<_Result.Any>
+		}
+
+		/**
+		 * Guard-based pattern matching. Cases are evaluated in the order they are added,
+		 * the first case whose key matches the result and whose guard passes handles it.
+		 *
+		 * - `.on(key, handler)` handles every result matching the key (`status:tag`, `status` or `cause:tag`).
+		 * - `.on(key, guard, handler)` also requires the data to pass the predicate or the type guard.
+		 * - `.on(key, pattern, handler)` also requires the data to match the structural pattern.
+		 * - `.otherwise(fallback)` runs the matching and passes the results not matched by any case to the fallback.
+		 * - `.run()` runs the matching and returns the results not matched by any case as is.
+		 *
+		 * As in {@link _Match.Match `Flow.Match`}, the values returned by the handlers are wrapped
+		 * into `Result.Ok` unless they are `Result.Error`.
+		 *
+		 * @param result - Any result.
+		 *
+		 * @example
+		 * ```typescript
+		 * const response = Flow.Match.When(result)
+		 * 	.on('error:Http', (data) => data.status >= 500, () => 'Server error')
+		 * 	.on('error:Http', { status: 404 }, () => 'Not found')
+		 * 	.on('ok', { items: [] }, () => 'Empty')
+		 * 	.otherwise((result) => result.status)
+		 * ```
+		 */
+		export function When<Result extends _Result.Any> (result: Result): When<Result> {
+			return createWhen(result, []) as unknown as When<Result>
+		}
+
+		// ---------------------------------------------------------------------
+
+		/**
+		 * Returned when `.exhaustive()` is called before every result is handled.
+		 *
+		 * @template Keys Keys of the unhandled results.
+		 */
+		type UnhandledResults<Keys> = {
+			readonly 'Unhandled results': Keys
+		}
+
+		/**
+		 * Values allowed to be returned by the handlers of the builder.
+		 *
+		 * @template IsAsync Whether the handlers may be asynchronous.
+		 */
+		type OnReturn<IsAsync extends boolean> =
+			| IsAsync extends true
+				? _Utils.AllowedReturn | Promise<_Utils.AllowedReturn>
+				: _Utils.AllowedReturn
+
+		/**
+		 * Output of the builder: a result or a promise of a result.
+		 *
+		 * @template Out Results.
+		 * @template Returned Values returned by the handlers.
+		 * @template IsAsync Whether the handlers may be asynchronous.
+		 */
+		type OnOutput<
+			Out extends _Result.Any,
+			Returned,
+			IsAsync extends boolean,
+		> =
+			| IsAsync extends true
+				? Promise<_Utils.Prettify<Out | _Result.OkFromUnlessError<Awaited<Returned>>>>
+				: _Utils.Prettify<Out | _Result.OkFromUnlessError<Returned>>
+
+		/**
+		 * Fluent builder of pattern matching. Every step excludes the handled results from `Remaining`.
+		 *
+		 * @template Result Any results.
+		 * @template Remaining Results not handled yet.
+		 * @template Returned Values returned by the handlers.
+		 * @template IsAsync Whether the handlers may be asynchronous.
+		 */
+		export type On<
+			Result extends _Result.Any,
+			Remaining extends _Result.Any = Result,
+			Returned = never,
+			IsAsync extends boolean = false,
+		> = {
+			/**
+			 * Handle all remaining success results.
+			 *
+			 * @param handler - Handler of the results.
+			 */
+			ok<U extends OnReturn<IsAsync>> (
+				handler: (result: GetResultByStatus<Remaining, 'ok'>) => U
+			):
+				On<Result, Exclude<Remaining, { status: 'ok' }>, Returned | U, IsAsync>
+
+			/**
+			 * Handle the remaining success results with the tag.
+			 *
+			 * @param tag - Tag of the results.
+			 * @param handler - Handler of the results.
+			 */
+			ok<
+				T extends GetResultTags<GetResultByStatus<Remaining, 'ok'>>,
+				U extends OnReturn<IsAsync>,
+			> (
+				tag: T,
+				handler: (result: GetResultByTagAndStatus<Remaining, 'ok', T>) => U
+			):
+				On<Result, Exclude<Remaining, { status: 'ok', tag: T }>, Returned | U, IsAsync>
+
+			/**
+			 * Handle all remaining error results.
+			 *
+			 * @param handler - Handler of the results.
+			 */
+			error<U extends OnReturn<IsAsync>> (
+				handler: (result: GetResultByStatus<Remaining, 'error'>) => U
+			):
+				On<Result, Exclude<Remaining, { status: 'error' }>, Returned | U, IsAsync>
+
+			/**
+			 * Handle the remaining error results with the tag.
+			 *
+			 * @param tag - Tag of the results.
+			 * @param handler - Handler of the results.
+			 */
+			error<
+				T extends GetResultTags<GetResultByStatus<Remaining, 'error'>>,
+				U extends OnReturn<IsAsync>,
+			> (
+				tag: T,
+				handler: (result: GetResultByTagAndStatus<Remaining, 'error', T>) => U
+			):
+				On<Result, Exclude<Remaining, { status: 'error', tag: T }>, Returned | U, IsAsync>
+
+			/**
+			 * Run the matching. Can only be called when every result is handled,
+			 * otherwise the type error names the unhandled results.
+			 */
+			exhaustive:
+				| [Remaining] extends [never]
+					? () => OnOutput<never, Returned, IsAsync>
+					: UnhandledResults<GetMatchKey<Remaining>>
+
+			/**
+			 * Run the matching. The remaining results are passed to the fallback.
+			 *
+			 * @param fallback - Handler of the remaining results.
+			 */
+			otherwise<U extends OnReturn<IsAsync>> (
+				fallback: (result: Remaining) => U
+			):
+				OnOutput<never, Returned | U, IsAsync>
+
+			/**
+			 * Run the matching. The remaining results are returned as is.
+			 */
+			run ():
+				OnOutput<Remaining, Returned, IsAsync>
+		}
+
+		/**
+		 * Create a fluent builder of pattern matching with the handlers.
+		 *
+		 * @param result - Any result or a promise of it.
+		 * @param isAsync - Whether the terminators return a promise.
+		 * @param matcher - Handlers added by the previous steps.
+		 */
+		function createOn (
+			result: _Result.Any | Promise<_Result.Any>,
+			isAsync: boolean,
+			matcher: Record<string, MatchResultCallback<_Result.Any>>
+		):
+			On<_Result.Any>
+		{
+			// Каждый шаг создаёт новый билдер, поэтому ветки одной цепочки не влияют друг на друга:
+			const add = (status: _Result.Any['status'], args: unknown[]) => {
+				const key = args.length > 1 ? `${status}:${args[0]}` : status
+				// Результаты ключа уже обработаны первым обработчиком, как и при сужении типов:
+				if (key in matcher) return createOn(result, isAsync, matcher)
+
+				const handler = args[args.length - 1] as MatchResultCallback<_Result.Any>
+				return createOn(result, isAsync, { ...matcher, [key]: handler })
+			}
+
+			const resolve = (result: _Result.Any, fallback?: MatchResultCallback<_Result.Any>) => {
+				const handler = findHandler(result, matcher) ?? fallback
+				return handler ? _Result.OkFromUnlessError(handler(result)) : result
+			}
+
+			const resolveAsync = async (result: _Result.Any, fallback?: MatchResultCallback<_Result.Any>) => {
+				const handler = findHandler(result, matcher) ?? fallback
+				return handler ? _Result.OkFromUnlessError(await handler(result)) : result
+			}
+
+			const run = (fallback?: MatchResultCallback<_Result.Any>) => isAsync
+				? Promise.resolve(result).then((result) => resolveAsync(result, fallback))
+				: resolve(result as _Result.Any, fallback)
+
+			return {
+				ok: (...args: unknown[]) => add('ok', args),
+				error: (...args: unknown[]) => add('error', args),
+				exhaustive: () => run(),
+				otherwise: run,
+				run: () => run(),
+			} as unknown as On<_Result.Any>
+		}
+
+		/**
+		 * Fluent pattern matching. Handlers are added step by step and every step excludes
+		 * the handled results from the remaining union, so the handlers of the later steps
+		 * only receive the results not handled yet.
+		 *
+		 * - `.ok(handler)` / `.error(handler)` handle all remaining results with the status.
+		 * - `.ok(tag, handler)` / `.error(tag, handler)` handle the remaining results with the status and the tag.
+		 * - `.exhaustive()` runs the matching, but can only be called when every result is handled.
+		 * - `.otherwise(fallback)` runs the matching and passes the remaining results to the fallback.
+		 * - `.run()` runs the matching and returns the remaining results as is.
+		 *
+		 * Handlers are looked up the same way as in {@link _Match.Match `Flow.Match`}. Every step returns
+		 * a new builder, so a partial chain can be reused and branched. A handler added for an already
+		 * handled key is ignored: its results are handled by the first one.
+		 *
+		 * @param result - Any result.
+		 *
+		 * @example
+		 * ```typescript
+		 * const message = Flow.Match.On(loadUser(id))
+		 * 	.ok((result) => result.data.name)
+		 * 	.error('NotFound', () => 'User not found')
+		 * 	.error((result) => `Unexpected ${result.tag}`)
+		 * 	.exhaustive()
+		 * ```
+		 */
+		export function On<Result extends _Result.Any> (result: Result): On<Result> {
+			return createOn(result, false, {}) as unknown as On<Result>
+		}
+
+		export namespace On
+		{
+			/**
+			 * Asynchronous {@link _Match.Match.On `Flow.Match.On`}: accepts a result or a promise of a result,
+			 * handlers may be asynchronous, terminators return a promise.
+			 *
+			 * @param result - Any result or a promise of it.
+			 */
+			export function Async<Result extends _Result.Any> (result: Result | Promise<Result>): On<Result, Result, never, true> {
+				return createOn(result, true, {}) as unknown as On<Result, Result, never, true>
+			}
+		}
+
+		// ---------------------------------------------------------------------
+
+		/**
+		 * Results of the tuple match: the returns of the handlers wrapped in
+		 * {@link _Result.Ok `Result.Ok`} unless they are results already.
+		 *
+		 * @template Matcher Tuple match map.
+		 */
+		export type All<Matcher> =
+			| _Utils.Prettify<GetRetursResultsFromMatches<Matcher>>
+
+		/**
+		 * Pattern matching on the combination of several results.
+		 *
+		 * Every key of the matcher consists of one segment per result joined by commas:
+		 * `status:tag`, `status` or `*` for any result (for example `ok,ok` or `error:NotFound,*`).
+		 * The handler receives the tuple of results narrowed by the segments.
+		 *
+		 * - Keys are checked in the order of definition, the first matching key wins.
+		 * - The `_` key is required and handles the combinations not covered by other keys.
+		 * - If the handler returns an error, it is propagated as-is.
+		 * - If the handler returns a value, it is wrapped using `Result.OkFrom`.
+		 * - Tags containing a comma cannot be written in a segment, so such results are matched only by `status`, `*` or `_`.
+		 *
+		 * @param results - Tuple of any results.
+		 * @param matcher - Tuple match map.
+		 *
+		 * @example
+		 * ```typescript
+		 * const page = Flow.Match.All([user, permissions], {
+		 * 	'ok,ok': ([user, permissions]) => renderDashboard(user.data, permissions.data),
+		 * 	'error:NotFound,*': () => renderNotFound(),
+		 * 	_: () => renderError(),
+		 * })
+		 * ```
+		 */
+		export function All<
+			Results extends readonly [_Result.Any, ..._Result.Any[]],
+			Matcher extends AllMatchMap<Results>,
+		> (
+			results: Results,
+			matcher: Matcher & UnknownAllMatchKeys<Results, Matcher>
+		):
+			All<Matcher>
+		{
+			for (const [key, handler] of Object.entries(matcher)) {
+				if (key === '_') continue
+
+				// Ключ подходит, если каждый сегмент подходит к результату на своей позиции.
+				// Сегменты не содержат запятых, поэтому тег с запятой совпадает только со статусом или `*`:
+				const segments = key.split(',')
+				const isMatched = segments.length === results.length
+					&& segments.every((segment, i) => segment === '*' || matchesKey(results[i]!, segment))
+
+				if (isMatched) return _Result.OkFromUnlessError(handler(results)) as All<Matcher>
+			}
+
+			return _Result.OkFromUnlessError(matcher._(results)) as All<Matcher>
+		}
+	}
 }
\ No newline at end of file
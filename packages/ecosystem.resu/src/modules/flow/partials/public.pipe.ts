@@ -1,9 +1,22 @@
 import { _Utils } from "../../../types/utils"
 import { _Result } from "../../result"
 import { _Match } from "./public.match"
+import { _Try } from "./public.try"
+import { _Trace } from "./public.trace"
+import { _Stream } from "./public.stream"
 
 export namespace _Pipe
 {
+	// Aliasing `Trace` namespace:
+	export import Trace = _Trace.Trace
+	export import TraceHooks = _Trace.Hooks
+	export import Tracer = _Trace.Tracer
+
+	// Aliasing `Stream` namespace:
+	export import Stream = _Stream.Stream
+	export import StreamSource = _Stream.Source
+	export import StreamOptions = _Stream.Options
+
 	type ResultTyple <
 		NextResult extends _Utils.AllowedReturn = never,
 		PrevResultTuple extends _Result.AnyOk[] = []
@@ -12,8 +25,257 @@ export namespace _Pipe
 			? [ ...PrevResultTuple ]
 			: [ ...PrevResultTuple, _Result.ExtractOk<NextResult> ]
 
+	/**
+	 * Get all non-null tags of the errors.
+	 *
+	 * @template ErrorResult Any errors.
+	 */
+	type GetErrorTags<ErrorResult extends _Result.AnyError> =
+		| Exclude<ErrorResult['tag'], null>
+
+	/**
+	 * Get the results passed to the next step after the recovery step.
+	 *
+	 * @template PrevResult The current result type in the pipeline.
+	 * @template NextResult The result type returned by the recovery handler.
+	 */
+	type RecoveredResult<
+		PrevResult extends _Utils.AllowedReturn,
+		NextResult extends _Utils.AllowedReturn
+	> =
+		| _Result.ExtractOk<_Result.OkFromUnlessError<PrevResult>>
+		| _Result.ExtractOk<_Result.OkFromUnlessError<NextResult>>
+
+	/**
+	 * Step of the pipeline: a transformer of success results or a recovery handler of errors
+	 * (with the tags of recoverable errors, `null` for any error).
+	 */
+	type Step<Return> =
+		| { transformer: (res: _Result.Any, signal?: AbortSignal) => Return, options?: SyncStepOptions | StepOptions }
+		| { tags: unknown[] | null, handler: (res: _Result.Any) => Return }
+
+	/**
+	 * Errors added to the pipeline by the options of the step.
+	 *
+	 * @template Options Options of the step.
+	 */
+	type StepErrors<Options extends StepOptions> =
+		| Options extends { timeout: number } ? _Try.TimeoutResult : never
+
+	/**
+	 * Errors added to the pipeline by its options.
+	 *
+	 * @template Options Options of the pipeline.
+	 */
+	type AsyncErrors<Options extends AsyncOptions> =
+		| Options extends { signal: AbortSignal } ? _Try.AbortOperationResult : never
+
 	// ---------------------------------------------------------------------
 
+	/**
+	 * Get the function of the step applicable to the current result: the transformer for
+	 * success results, the recovery handler for errors with one of its tags.
+	 *
+	 * @param step - Step of the pipeline.
+	 * @param result - Current result.
+	 */
+	function getStepFunction<Return> (step: Step<Return>, result: _Result.Any): ((res: _Result.Any, signal?: AbortSignal) => Return) | undefined {
+		const resultIsError = _Result.IsError(result)
+		if ('transformer' in step) return resultIsError ? undefined : step.transformer
+
+		const isRecoverable = resultIsError && (step.tags === null || step.tags.includes(result.tag))
+		return isRecoverable ? step.handler : undefined
+	}
+
+	/**
+	 * Create the recovery step from the arguments of `catch`.
+	 *
+	 * @param args - Tags and the handler, or the handler only.
+	 */
+	function createCatchStep<Return> (args: unknown[]): Step<Return> {
+		const [tags, handler] = args.length > 1 ? args : [null, args[0]]
+		return {
+			tags: tags === null || Array.isArray(tags) ? tags : [tags],
+			handler: handler as (res: _Result.Any) => Return,
+		}
+	}
+
+	/**
+	 * Run the function of the step and report it to the tracing hooks (sync or async).
+	 *
+	 * @param hooks - Tracing hooks of the pipeline.
+	 * @param event - Information about the step.
+	 * @param run - Runs the function of the step.
+	 */
+	function traceStep<Return extends _Result.Any | Promise<_Result.Any>> (
+		hooks: _Trace.Hooks | undefined,
+		event: _Trace.StepEvent,
+		run: () => Return
+	):
+		Return
+	{
+		if (!hooks) return run()
+
+		hooks.onStepStart?.(event)
+		const startedAt = performance.now()
+
+		const end = (output: _Result.Any) => {
+			hooks.onStepEnd?.({ ...event, output, duration: performance.now() - startedAt })
+			return output
+		}
+
+		// Исключение шага тоже завершает его трассировку, после чего пробрасывается дальше:
+		const fail = (error: unknown): never => {
+			hooks.onStepError?.({ ...event, error, duration: performance.now() - startedAt })
+			throw error
+		}
+
+		let output: Return
+		try {
+			output = run()
+		}
+		catch (error) {
+			return fail(error)
+		}
+		return (output instanceof Promise ? output.then(end, fail) : end(output as _Result.Any)) as Return
+	}
+
+	/**
+	 * Report the step skipped because of the error to the tracing hooks.
+	 * Recovery steps skipped by success results are not reported.
+	 *
+	 * @param hooks - Tracing hooks of the pipeline.
+	 * @param step - Step of the pipeline.
+	 * @param event - Information about the step.
+	 */
+	function traceSkippedStep (hooks: _Trace.Hooks | undefined, step: Step<unknown>, event: _Trace.StepEvent): void {
+		const isShortCircuit = 'transformer' in step && _Result.IsError(event.input)
+		if (isShortCircuit) hooks?.onShortCircuit?.(event)
+	}
+
+	/**
+	 * Get the information about the step for the tracing hooks.
+	 *
+	 * @param step - Step of the pipeline.
+	 * @param index - Position of the step.
+	 * @param input - Result passed to the step.
+	 */
+	function getStepEvent (step: Step<unknown>, index: number, input: _Result.Any): _Trace.StepEvent {
+		return { index, name: 'options' in step ? step.options?.name : undefined, input }
+	}
+
+	/**
+	 * Check if the result is the error of the aborted pipeline.
+	 *
+	 * @param result - Any result.
+	 */
+	function isAborted (result: _Result.Any): boolean {
+		return _Result.IsError(result) && result.data instanceof _Try.AbortOperationError
+	}
+
+	/**
+	 * Convert the abort or timeout error into the result tagged with its name.
+	 *
+	 * @param error - Abort or timeout error.
+	 */
+	function toErrorResult (error: Error): _Result.Any {
+		return _Result.ErrorFrom(error, error.name) as _Result.Any
+	}
+
+	/**
+	 * Run the function of the step once. The function receives a signal which is aborted when the pipeline
+	 * is aborted or the timeout expires, the result is {@link _Try.AbortOperationResult `Result.Error<Error, 'AbortOperation'>`}
+	 * or {@link _Try.TimeoutResult `Result.Error<Error, 'Timeout'>`} then.
+	 *
+	 * @param fn - Function of the step.
+	 * @param res - Current result.
+	 * @param timeout - Timeout of the step in milliseconds.
+	 * @param signal - Cancellation signal of the pipeline.
+	 */
+	function runAttempt (
+		fn: (res: _Result.Any, signal?: AbortSignal) => unknown,
+		res: _Result.Any,
+		timeout: number | undefined,
+		signal: AbortSignal | undefined
+	):
+		Promise<unknown>
+	{
+		const controller = new AbortController()
+
+		return new Promise((resolve, reject) => {
+			const abort = (error: Error) => {
+				controller.abort(error)
+				resolve(toErrorResult(error))
+			}
+			const onAbort = () => abort(new _Try.AbortOperationError(signal?.reason))
+
+			if (signal?.aborted) return onAbort()
+			signal?.addEventListener('abort', onAbort, { once: true })
+			const timer = timeout === undefined ? undefined : setTimeout(() => abort(new _Try.TimeoutError()), timeout)
+
+			// Гонка между выполнением шага, отменой и таймаутом:
+			Promise.resolve()
+				.then(() => fn(res, controller.signal))
+				.then(resolve, reject)
+				.finally(() => {
+					clearTimeout(timer)
+					signal?.removeEventListener('abort', onAbort)
+				})
+		})
+	}
+
+	/**
+	 * Wait before the next attempt. Resolves to `false` if the pipeline is aborted while waiting.
+	 *
+	 * @param ms - Delay in milliseconds.
+	 * @param signal - Cancellation signal of the pipeline.
+	 */
+	function wait (ms: number, signal: AbortSignal | undefined): Promise<boolean> {
+		return new Promise((resolve) => {
+			const onAbort = () => {
+				clearTimeout(timer)
+				resolve(false)
+			}
+			const timer = setTimeout(() => {
+				signal?.removeEventListener('abort', onAbort)
+				resolve(true)
+			}, ms)
+
+			if (signal?.aborted) return onAbort()
+			signal?.addEventListener('abort', onAbort, { once: true })
+		})
+	}
+
+	/**
+	 * Run the function of the step with the timeout and the retry policy of the step.
+	 *
+	 * @param fn - Function of the step.
+	 * @param res - Current result.
+	 * @param options - Options of the step.
+	 * @param signal - Cancellation signal of the pipeline.
+	 */
+	async function runStep (
+		fn: (res: _Result.Any, signal?: AbortSignal) => unknown,
+		res: _Result.Any,
+		options: StepOptions | undefined,
+		signal: AbortSignal | undefined
+	):
+		Promise<_Result.Any>
+	{
+		const { attempts = 1, delay = 0, when = () => true } = options?.retry ?? {}
+
+		for (let attempt = 1; ; attempt++) {
+			const result = _Result.OkFromUnlessError(await runAttempt(fn, res, options?.timeout, signal)) as _Result.Any
+
+			// Отмененный шаг и успешный результат не повторяем:
+			const isRetryable = _Result.IsError(result) && !isAborted(result) && when(result)
+			if (!isRetryable || attempt >= attempts) return result
+
+			const isWaited = await wait(typeof delay === 'function' ? delay(attempt) : delay, signal)
+			if (!isWaited) return toErrorResult(new _Try.AbortOperationError(signal?.reason))
+		}
+	}
+
 	function unwrapResult (result: unknown): _Result.Any {
 		return typeof result === 'function'
 			? _Result.OkFromUnlessError(result())
@@ -28,6 +290,26 @@ export namespace _Pipe
 
 	// ---------------------------------------------------------------------
 
+	/**
+	 * Options of the synchronous pipeline.
+	 */
+	export type SyncOptions = {
+		/**
+		 * Hooks called for every step of the pipeline, see {@link _Trace.Trace `Flow.Pipe.Trace`}.
+		 */
+		trace?: _Trace.Hooks
+	}
+
+	/**
+	 * Options of the step of the synchronous pipeline.
+	 */
+	export type SyncStepOptions = {
+		/**
+		 * Name of the step reported to the tracing hooks.
+		 */
+		name?: string
+	}
+
 	/**
 	 * Add a function to the pipeline that processes the current result.
 	 *
@@ -44,6 +326,7 @@ export namespace _Pipe
 		 *
 		 * @template NextResult The result type returned by the function.
 		 * @param transformer Function that processes the current result and returns a new result.
+		 * @param options Name of the step.
 		 */
 		<
 			NextResult extends _Utils.AllowedReturn = never,
@@ -52,7 +335,8 @@ export namespace _Pipe
 		> (
 			transformer: [_Result.ExtractOk<_Result.OkFromUnlessError<PrevResult>>] extends [never]
 				? never
-				: ((res: _Result.ExtractOk<_Result.OkFromUnlessError<PrevResult>>) => NextResult)
+				: ((res: _Result.ExtractOk<_Result.OkFromUnlessError<PrevResult>>) => NextResult),
+			options?: SyncStepOptions
 		):
 			Sync<
 				NextResult,
@@ -65,6 +349,40 @@ export namespace _Pipe
 		 */
 		(): _Result.OkFrom<PrevResult> | PrevErrorResult
 
+		/**
+		 * Add a recovery step: errors with one of the tags skip the transformers up to this step
+		 * and are passed to the handler, whose return continues the pipeline.
+		 *
+		 * @param tags Tag or tags of the recoverable errors.
+		 * @param handler Function that turns the error into a new result.
+		 */
+		catch <
+			Tag extends GetErrorTags<PrevErrorResult>,
+			NextResult extends _Utils.AllowedReturn,
+		> (
+			tags: Tag | Tag[],
+			handler: (error: Extract<PrevErrorResult, { tag: Tag }>) => NextResult
+		):
+			Sync<
+				RecoveredResult<PrevResult, NextResult>,
+				Exclude<PrevErrorResult, { tag: Tag }> | _Result.ExtractError<NextResult>,
+				ResultTyple<NextResult, PrevResultTuple>
+			>
+
+		/**
+		 * Add a recovery step for any error.
+		 *
+		 * @param handler Function that turns the error into a new result.
+		 */
+		catch <NextResult extends _Utils.AllowedReturn> (
+			handler: (error: PrevErrorResult) => NextResult
+		):
+			Sync<
+				RecoveredResult<PrevResult, NextResult>,
+				_Result.ExtractError<NextResult>,
+				ResultTyple<NextResult, PrevResultTuple>
+			>
+
 		// Running chaining methods using a loop:
 		[Symbol.iterator] (): Generator<PrevResultTuple[number], PrevResultTuple, void>
 	}
@@ -73,10 +391,12 @@ export namespace _Pipe
 	 * Creates a synchronous pipeline for processing {@link _Result.Any `Result`} objects.
 	 *
 	 * The pipeline executes functions sequentially and stops immediately if any function
-	 * returns {@link _Result.Error `Result.Error`} (early termination).
+	 * returns {@link _Result.Error `Result.Error`} (early termination). The error skips the
+	 * remaining functions up to a recovery step added with `.catch(tags?, handler)`.
 	 *
 	 * @template A The initial result type.
 	 * @param init Initial value for the pipeline. Can be a {@link _Result.Any `Result`} or a function that returns one.
+	 * @param options Tracing hooks of the pipeline.
 	 *
 	 * @example
 	 * ```typescript
@@ -95,15 +415,28 @@ export namespace _Pipe
 	 *   ()                                        // -> Returns: Result.ErrorFrom("always fails")
 	 * ```
 	 */
-	export function Sync <Result extends _Utils.AllowedReturn> (result: Result | (() => Result)): Sync<Result> {
+	export function Sync <Result extends _Utils.AllowedReturn> (result: Result | (() => Result), options?: SyncOptions): Sync<Result> {
+		const trace = options?.trace
+
 		// Массив содержащий все шаги цепочки:
-		const transformers: Array<(res: _Result.Any) => _Utils.AllowedReturn> = []
+		const steps: Array<Step<_Utils.AllowedReturn>> = []
+
+		// Выполнение шага с трассировкой, `undefined` для пропущенного шага:
+		const runStep = (index: number, lastResult: _Result.Any) => {
+			const step = steps[index]!
+			const event = getStepEvent(step, index, lastResult)
+
+			const fn = getStepFunction(step, lastResult)
+			if (!fn) return traceSkippedStep(trace, step, event)
+
+			return traceStep(trace, event, () => _Result.OkFromUnlessError(fn(lastResult)) as _Result.Any)
+		}
 
 		// Замкнутая функция которая будет вызывать цепочку, или обновлять ее:
-		const next = (transformer?: (res?: _Result.Any) => typeof transformers[number]) => {
+		const next = (transformer?: (res?: _Result.Any) => _Utils.AllowedReturn, options?: SyncStepOptions) => {
 			// Обновляем цепочку действий, если передали аргумент:
 			if (transformer) {
-				transformers.push(transformer)
+				steps.push({ transformer, options })
 				return next
 			}
 			// Выполнение цепочки действий, если при вызове небыло передано аргумента:
@@ -111,52 +444,84 @@ export namespace _Pipe
 				// Начальное значение:
 				let lastResult = unwrapResult(result)
 
-				// Проверка начального значения:
-				const lastResultIsError = _Result.IsError(lastResult)
-				if (lastResultIsError) return lastResult
-
-				// Итерируем шаги цепочки и формируем финальный результат:
-				for (const transformer of transformers) {
-					const result = transformer(lastResult)
-					const resultIsError = _Result.IsError(result)
-					if (resultIsError) return result
-
-					const resultAsOk = _Result.OkFrom(result)
-					lastResult = resultAsOk
+				// Итерируем шаги цепочки и формируем финальный результат.
+				// Ошибка пропускает трансформации до шага восстановления с подходящим тегом:
+				for (let i = 0; i < steps.length; i++) {
+					lastResult = runStep(i, lastResult) ?? lastResult
 				}
 				return lastResult
 			}
 		}
 
+		// Добавление шага восстановления:
+		next.catch = (...args: unknown[]) => (steps.push(createCatchStep(args)), next)
+
 		// Генератор для итерации шагов трансформаций:
 		function * iterator (): Generator<_Result.Any, _Result.Any[], _Result.Any> {
 			// Начальное значение:
 			let lastResult = unwrapResult(result)
 
-			// Проверка начального значения:
-			const lastResultIsError = _Result.IsError(lastResult)
-			if (lastResultIsError) return [lastResult]
-
-			// Формирование массива результатов:
+			// Формирование массива результатов (включая восстановленные):
 			const results = [ _Result.OkFromUnlessError(lastResult) ]
-			for (const transformer of transformers) {
-				const result = transformer(lastResult)
-
-				const resultIsError = _Result.IsError(result)
-				if (resultIsError) return (results.push(yield result), results)
+			for (let i = 0; i < steps.length; i++) {
+				const resultAsResult = runStep(i, lastResult)
+				if (!resultAsResult) continue
 
-				const resultAsOk = _Result.OkFrom(result) as _Result.Any
-				results.push(yield lastResult = resultAsOk)
+				results.push(yield lastResult = resultAsResult)
 			}
 			return results
 		}
 
 		next[Symbol.iterator] = iterator
-		return next as Sync<Result>
+		return next as unknown as Sync<Result>
 	}
 
 	// ---------------------------------------------------------------------
 
+	/**
+	 * Options of the asynchronous pipeline.
+	 */
+	export type AsyncOptions = SyncOptions & {
+		/**
+		 * Cancellation signal. If `abort` is called, the running step is interrupted, further steps
+		 * are not started and the pipeline returns {@link _Result.Error `Result.Error<Error, 'AbortOperation'>`}.
+		 */
+		signal?: AbortSignal
+	}
+
+	/**
+	 * Retry policy of the step of the asynchronous pipeline.
+	 */
+	export type RetryOptions = {
+		/**
+		 * Maximum number of attempts, including the first one.
+		 */
+		attempts: number
+		/**
+		 * Delay before the next attempt in milliseconds, or a function of the number of the failed attempt.
+		 */
+		delay?: number | ((attempt: number) => number)
+		/**
+		 * Decides whether the error should be retried, all errors are retried by default.
+		 */
+		when?: (error: _Result.AnyError) => boolean
+	}
+
+	/**
+	 * Options of the step of the asynchronous pipeline.
+	 */
+	export type StepOptions = SyncStepOptions & {
+		/**
+		 * Timeout of each attempt in milliseconds. If it expires, the signal of the step is aborted
+		 * and the step returns {@link _Result.Error `Result.Error<Error, 'Timeout'>`}.
+		 */
+		timeout?: number
+		/**
+		 * Retry policy applied when the step returns an error (including a timeout).
+		 */
+		retry?: RetryOptions
+	}
+
 	/**
 	 * An asynchronous pipeline that processes {@link _Result.Any `Result`} objects through a chain of functions.
 	 *
@@ -178,15 +543,19 @@ export namespace _Pipe
 		 *
 		 * @template NextResult The result type returned by the function.
 		 * @param transformer Function that processes the current result and returns a new result (sync or async).
+		 *                    Receives the signal aborted when the pipeline is aborted or the timeout of the step expires.
+		 * @param options Name, timeout and retry policy of the step.
 		 */
 		<
 			NextResult extends _Utils.AllowedReturn = never,
-			NextErrorResult extends _Result.AnyError = PrevErrorResult | _Result.ExtractError<NextResult>,
+			Options extends StepOptions = {},
+			NextErrorResult extends _Result.AnyError = PrevErrorResult | _Result.ExtractError<NextResult> | StepErrors<Options>,
 			NextResultTuple extends _Result.AnyOk[] = ResultTyple<NextResult, PrevResultTuple>
 		> (
 			transformer: [_Result.ExtractOk<_Result.OkFromUnlessError<PrevResult>>] extends [never]
 				? never
-				: ((res: _Result.ExtractOk<_Result.OkFromUnlessError<PrevResult>>) => NextResult | Promise<NextResult>)
+				: ((res: _Result.ExtractOk<_Result.OkFromUnlessError<PrevResult>>, signal: AbortSignal) => NextResult | Promise<NextResult>),
+			options?: Options & StepOptions
 		):
 			Async<
 				NextResult,
@@ -199,6 +568,40 @@ export namespace _Pipe
 		 */
 		(): Promise<_Result.OkFrom<PrevResult> | PrevErrorResult>
 
+		/**
+		 * Add a recovery step: errors with one of the tags skip the transformers up to this step
+		 * and are passed to the handler (sync or async), whose return continues the pipeline.
+		 *
+		 * @param tags Tag or tags of the recoverable errors.
+		 * @param handler Function that turns the error into a new result.
+		 */
+		catch <
+			Tag extends GetErrorTags<PrevErrorResult>,
+			NextResult extends _Utils.AllowedReturn,
+		> (
+			tags: Tag | Tag[],
+			handler: (error: Extract<PrevErrorResult, { tag: Tag }>) => NextResult | Promise<NextResult>
+		):
+			Async<
+				RecoveredResult<PrevResult, NextResult>,
+				Exclude<PrevErrorResult, { tag: Tag }> | _Result.ExtractError<NextResult>,
+				ResultTyple<NextResult, PrevResultTuple>
+			>
+
+		/**
+		 * Add a recovery step for any error.
+		 *
+		 * @param handler Function that turns the error into a new result (sync or async).
+		 */
+		catch <NextResult extends _Utils.AllowedReturn> (
+			handler: (error: PrevErrorResult) => NextResult | Promise<NextResult>
+		):
+			Async<
+				RecoveredResult<PrevResult, NextResult>,
+				_Result.ExtractError<NextResult>,
+				ResultTyple<NextResult, PrevResultTuple>
+			>
+
 		// Running chaining methods using a loop:
 		[Symbol.asyncIterator] (): AsyncGenerator<PrevResultTuple[number], PrevResultTuple, void>
 	}
@@ -208,12 +611,16 @@ export namespace _Pipe
 	 *
 	 * The pipeline executes functions sequentially (awaiting each async function) and stops
 	 * immediately if any function returns {@link _Result.Error `Result.Error`} (early termination).
+	 * The error skips the remaining functions up to a recovery step added with `.catch(tags?, handler)`.
 	 *
 	 * Functions can be synchronous or asynchronous - the pipeline will handle both correctly.
+	 * Each function receives an `AbortSignal` as the second argument and may be given a timeout
+	 * and a retry policy: `pipe(fn, { timeout, retry })`.
 	 *
 	 * @template A The initial result type.
 	 * @param init Initial value for the pipeline. Can be a {@link _Result.Any `Result`}, a Promise of one,
 	 *             or a function that returns either.
+	 * @param options Cancellation signal and tracing hooks of the pipeline.
 	 *
 	 * @example
 	 * ```typescript
@@ -231,70 +638,735 @@ export namespace _Pipe
 	 *   (x => Result.OkFrom(x + 1))                     // -> This won't execute
 	 *   ()                                              // -> Returns: Promise<Result.ErrorFrom("always fails")>
 	 * ```
+	 *
+	 * @example Cancellation, timeout and retries:
+	 * ```typescript
+	 * const result = await Flow.Pipe.Async(Result.OkFrom(id), { signal: controller.signal })
+	 *   ((id, signal) => fetchUser(id.data, { signal }), { timeout: 1000, retry: { attempts: 3, delay: 200 } })
+	 *   (user => user.data.name)
+	 *   ()   // -> Returns: Promise<Result.Ok<string> | Result.Error<Error, 'AbortOperation' | 'Timeout'> | ...>
+	 * ```
 	 */
 	export function Async <
-		Result extends _Utils.AllowedReturn
+		Result extends _Utils.AllowedReturn,
+		Options extends AsyncOptions = {},
 	> (
-		result: Result | Promise<Result> | (() => Result | Promise<Result>)
+		result: Result | Promise<Result> | (() => Result | Promise<Result>),
+		options?: Options
 	):
-		Async<Result>
+		Async<Result, _Result.ExtractError<Result> | AsyncErrors<Options>>
 	{
+		const signal = options?.signal
+		const trace = options?.trace
+
 		// Массив содержащий все шаги цепочки:
-		const transformers: Array<(res: _Result.Any) => _Utils.AllowedReturn | Promise<_Utils.AllowedReturn>> = []
+		const steps: Array<Step<_Utils.AllowedReturn | Promise<_Utils.AllowedReturn>>> = []
+
+		// Результат `AbortOperation` вложенной операции со своим сигналом может быть восстановлен следующими шагами,
+		// прерывается только отменённая цепочка:
+		const isPipelineAborted = (result: _Result.Any) => !!signal?.aborted && isAborted(result)
+
+		// Выполнение шага с трассировкой, `undefined` для пропущенного шага.
+		// После отмены следующие шаги не запускаются (цикл прерывается на результате отмены цепочки):
+		const runStepAt = async (index: number, lastResult: _Result.Any) => {
+			const step = steps[index]!
+			const event = getStepEvent(step, index, lastResult)
+
+			const fn = getStepFunction(step, lastResult)
+			if (!fn) return traceSkippedStep(trace, step, event)
+			if (signal?.aborted) return toErrorResult(new _Try.AbortOperationError(signal.reason))
+
+			return traceStep(trace, event, () => runStep(fn, lastResult, 'options' in step ? step.options : undefined, signal))
+		}
 
 		// Замкнутая функция которая будет вызывать цепочку, или обновлять ее:
-		const next = (transformer?: (res?: _Result.Any) => typeof transformers[number]) => {
+		const next = (transformer?: (res: _Result.Any, signal?: AbortSignal) => _Utils.AllowedReturn | Promise<_Utils.AllowedReturn>, options?: StepOptions) => {
 			// Обновляем цепочку действий, если передали аргумент:
 			if (transformer) {
-				transformers.push(transformer)
+				steps.push({ transformer, options })
 				return next
 			}
-			// Выполнение цепочки действий, если при вызове небыло передано аргумента:
-			else return new Promise(async (res) => {
+			// Выполнение цепочки действий, если при вызове небыло передано аргумента.
+			// Исключение шага отклоняет возвращаемый промис:
+			else return (async () => {
 				// Начальное значение:
 				let lastResult = await asyncUnwrapResult(result)
 
-				// Проверка начального значения:
-				const lastResultIsError = _Result.IsError(lastResult)
-				if (lastResultIsError) return res(lastResult)
-
-				// Итерируем шаги цепочки и формируем финальный результат:
-				for (const transformer of transformers) {
-					const result = await transformer(lastResult)
-
-					const resultIsError = _Result.IsError(result)
-					if (resultIsError) return res(result)
-
-					const resultAsOk = _Result.OkFrom(result)
-					lastResult = resultAsOk
+				// Итерируем шаги цепочки и формируем финальный результат.
+				// Ошибка пропускает трансформации до шага восстановления с подходящим тегом:
+				for (let i = 0; i < steps.length; i++) {
+					lastResult = await runStepAt(i, lastResult) ?? lastResult
+					if (isPipelineAborted(lastResult)) break
 				}
-				return res(lastResult)
-			})
+				return lastResult
+			})()
 		}
 
+		// Добавление шага восстановления:
+		next.catch = (...args: unknown[]) => (steps.push(createCatchStep(args)), next)
+
 		// Генератор для итерации шагов трансформаций:
 		async function * iterator (): AsyncGenerator<_Result.Any, _Result.Any[], _Result.Any> {
 			// Начальное значение:
 			let lastResult = await asyncUnwrapResult(result)
 
-			// Проверка начального значения:
-			const lastResultIsError = _Result.IsError(lastResult)
-			if (lastResultIsError) return [lastResult]
-
-			// Формирование массива результатов:
+			// Формирование массива результатов (включая восстановленные):
 			const results = [ _Result.OkFromUnlessError(lastResult) ]
-			for await (const transformer of transformers) {
-				const result = await transformer(lastResult)
-				const resultIsError = _Result.IsError(result)
-				if (resultIsError) return (results.push(yield result), results)
+			for (let i = 0; i < steps.length; i++) {
+				const resultAsResult = await runStepAt(i, lastResult)
+				if (!resultAsResult) continue
 
-				const resultAsOk = _Result.OkFrom(result) as _Result.Any
-				results.push(yield lastResult = resultAsOk)
+				results.push(yield lastResult = resultAsResult)
+				if (isPipelineAborted(lastResult)) break
 			}
 			return results
 		}
 
 		next[Symbol.asyncIterator] = iterator
-		return next as Async<Result>
+		return next as unknown as Async<Result, _Result.ExtractError<Result> | AsyncErrors<Options>>
+	}
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Transformer of the parallel step (sync or async). Receives the signal of the step.
+	 *
+	 * @template Res The success result passed to the step.
+	 */
+	type ParallelTransformer<Res extends _Result.AnyOk> =
+		| ((res: Res, signal: AbortSignal) => _Utils.AllowedReturn | Promise<_Utils.AllowedReturn>)
+
+	/**
+	 * Tuple, array or record of the transformers of the parallel step.
+	 *
+	 * @template Res The success result passed to the step.
+	 */
+	export type ParallelTransformers<Res extends _Result.AnyOk> =
+		| readonly ParallelTransformer<Res>[]
+		| { readonly [key: string]: ParallelTransformer<Res> }
+
+	/**
+	 * Joining mode of the parallel step:
+	 * - `fail-fast` returns the first error as soon as it occurs, the pending transformers are not started;
+	 * - `collect-all` waits for every transformer and returns an error with all results if any of them failed.
+	 */
+	export type ParallelMode = 'fail-fast' | 'collect-all'
+
+	/**
+	 * Options of the parallel step.
+	 *
+	 * @template Mode Joining mode.
+	 */
+	export type ParallelOptions<Mode extends ParallelMode = ParallelMode> = {
+		/**
+		 * Joining mode, `fail-fast` by default.
+		 */
+		mode?: Mode
+		/**
+		 * Maximum number of transformers running at the same time, unlimited by default.
+		 */
+		concurrency?: number
+	}
+
+	/**
+	 * Maps each transformer to its result.
+	 *
+	 * @template T Tuple, array or record of transformers.
+	 */
+	type ParallelResults<T> =
+		| { -readonly [K in keyof T]: T[K] extends (...args: any[]) => infer R ? _Result.OkFromUnlessError<Awaited<R>> : never }
+
+	/**
+	 * Union of all results of the transformers.
+	 *
+	 * @template T Tuple, array or record of transformers.
+	 */
+	type ParallelResultValues<T> =
+		| ParallelResults<T> extends infer R
+			? R extends readonly any[] ? R[number] : R[keyof R]
+			: never
+
+	/**
+	 * Result of the parallel step: {@link _Result.Ok `Result.Ok`} with a tuple, array or record of the data,
+	 * or the first error (`fail-fast`), or {@link _Result.Error `Result.Error`} with all results (`collect-all`).
+	 *
+	 * @template T Tuple, array or record of transformers.
+	 * @template Mode Joining mode.
+	 */
+	export type Parallel<T, Mode extends ParallelMode = 'fail-fast'> =
+		| _Result.Ok<{ -readonly [K in keyof T]: _Result.ExtractOk<ParallelResults<T>[K]>['data'] }>
+		| (Mode extends 'collect-all' ? _Result.Error<ParallelResults<T>> : _Result.ExtractError<ParallelResultValues<T>>)
+
+	/**
+	 * Creates a step of {@link _Pipe.Async `Flow.Pipe.Async`} that runs several transformers concurrently
+	 * on the same result and joins their results into a tuple, array or record.
+	 *
+	 * - In `fail-fast` mode (default), the first error is returned as soon as it occurs and the pending transformers are not started.
+	 * - In `collect-all` mode, every transformer runs to the end, and if any of them failed,
+	 *   {@link _Result.Error `Result.Error`} with the results of all transformers is returned.
+	 * - `concurrency` limits the number of transformers running at the same time.
+	 * - Every transformer receives the signal of the step. Once it is aborted, the pending transformers are not started
+	 *   and the promise is rejected with {@link _Try.AbortOperationError `AbortOperationError`}
+	 *   (inside {@link _Pipe.Async `Flow.Pipe.Async`} the step returns `Result.Error<Error, 'AbortOperation'>` then).
+	 *
+	 * @param transformers Tuple, array or record of transformers (sync or async).
+	 * @param options Joining mode and concurrency limit.
+	 *
+	 * @example
+	 * ```typescript
+	 * const dashboard = await Flow.Pipe.Async(Result.OkFrom(userId))
+	 *   (Flow.Pipe.Parallel({
+	 *     profile: (id) => loadProfile(id.data),
+	 *     orders: (id) => loadOrders(id.data),
+	 *     settings: (id) => loadSettings(id.data),
+	 *   }, { concurrency: 2 }))
+	 *   (({ data }) => renderDashboard(data.profile, data.orders, data.settings))
+	 *   ()
+	 * ```
+	 */
+	export function Parallel <
+		Res extends _Result.AnyOk,
+		const T extends ParallelTransformers<Res>,
+		Mode extends ParallelMode = 'fail-fast',
+	> (
+		transformers: T,
+		options?: ParallelOptions<Mode>
+	):
+		(res: Res, signal?: AbortSignal) => Promise<Parallel<T, Mode>>
+	{
+		const isArray = Array.isArray(transformers)
+		const keys = Object.keys(transformers)
+		const isFailFast = options?.mode !== 'collect-all'
+		const concurrency = Math.min(Math.max(1, options?.concurrency ?? Infinity), keys.length)
+
+		// Восстанавливаем исходную форму (кортеж/массив или объект):
+		const rebuild = (items: unknown[]) => isArray
+			? items
+			: Object.fromEntries(keys.map((key, i) => [key, items[i]]))
+
+		return (res, signal = new AbortController().signal) => new Promise((resolve, reject) => {
+			const results: _Result.Any[] = []
+			let nextIndex = 0
+			let isSettled = false
+
+			// После отмены шага новые трансформеры не запускаются:
+			const onAbort = () => {
+				isSettled = true
+				reject(new _Try.AbortOperationError(signal.reason))
+			}
+			if (signal.aborted) return onAbort()
+			signal.addEventListener('abort', onAbort, { once: true })
+
+			// Каждый обработчик по очереди берет следующий трансформер, пока они не закончатся:
+			const worker = async () => {
+				while (nextIndex < keys.length && !isSettled) {
+					const i = nextIndex++
+					const transformer = (transformers as Record<string, ParallelTransformer<Res>>)[keys[i]!]!
+					const result = results[i] = _Result.OkFromUnlessError(await transformer(res, signal))
+
+					if (isFailFast && _Result.IsError(result)) {
+						isSettled = true
+						return resolve(result as Parallel<T, Mode>)
+					}
+				}
+			}
+
+			Promise.all(Array.from({ length: concurrency }, worker)).finally(() => {
+				signal.removeEventListener('abort', onAbort)
+			}).then(() => {
+				if (isSettled) return
+
+				const hasError = results.some(_Result.IsError)
+				resolve((hasError
+					? _Result.Error({ data: rebuild(results) })
+					: _Result.Ok({ data: rebuild(results.map((result) => result.data)) })
+				) as Parallel<T, Mode>)
+			}, reject)
+		})
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Initial value accepted by the defined pipeline: the input itself or the success
+	 * result passed by the step of another pipeline.
+	 *
+	 * @template Input The initial value type.
+	 */
+	type DefineInput<Input extends _Utils.AllowedReturn> =
+		| Input
+		| _Result.ExtractOk<_Result.OkFromUnlessError<Input>>
+
+	/**
+	 * Pipeline with the erased types, used to replay the defined steps.
+	 */
+	type PipeBuilder = {
+		(transformer?: unknown, options?: unknown): PipeBuilder
+		catch (...args: unknown[]): PipeBuilder
+	}
+
+	/**
+	 * Create the builder of the defined pipeline. The steps are recorded and replayed
+	 * on the pipeline created for every call of the defined function.
+	 *
+	 * @param createPipe - Creates the pipeline for the initial value.
+	 */
+	function createDefine (createPipe: (input: _Utils.AllowedReturn, signal?: AbortSignal) => PipeBuilder) {
+		// Массив содержащий все шаги цепочки, добавляемые к каждому новому конвейеру:
+		const steps: Array<(pipe: PipeBuilder) => PipeBuilder> = []
+
+		// Замкнутая функция которая будет возвращать определенный конвейер, или обновлять его:
+		const next = (transformer?: unknown, options?: unknown) => {
+			// Обновляем цепочку действий, если передали аргумент:
+			if (transformer) {
+				steps.push((pipe) => pipe(transformer, options))
+				return next
+			}
+			// Фиксируем шаги, чтобы последующие вызовы не меняли уже определенный конвейер:
+			else {
+				const definedSteps = [ ...steps ]
+				return (input: _Utils.AllowedReturn, signal?: AbortSignal) => definedSteps
+					.reduce<PipeBuilder>((pipe, addStep) => addStep(pipe), createPipe(input, signal))()
+			}
+		}
+
+		// Добавление шага восстановления:
+		next.catch = (...args: unknown[]) => (steps.push((pipe) => pipe.catch(...args)), next)
+
+		return next
+	}
+
+	/**
+	 * A reusable synchronous pipeline which receives the initial value when it is called.
+	 *
+	 * @template Input The initial value type.
+	 * @template PrevResult The current result type in the pipeline.
+	 * @template PrevErrorResult Union of all possible error types that can occur in the pipeline.
+	 */
+	export type Define <
+		Input extends _Utils.AllowedReturn,
+		PrevResult extends _Utils.AllowedReturn = Input,
+		PrevErrorResult extends _Result.AnyError = _Result.ExtractError<PrevResult>
+	> = {
+		/**
+		 * Add a function to the pipeline that processes the current result.
+		 *
+		 * @template NextResult The result type returned by the function.
+		 * @param transformer Function that processes the current result and returns a new result.
+		 * @param options Name of the step.
+		 */
+		<
+			NextResult extends _Utils.AllowedReturn = never,
+			NextErrorResult extends _Result.AnyError = PrevErrorResult | _Result.ExtractError<NextResult>
+		> (
+			transformer: [_Result.ExtractOk<_Result.OkFromUnlessError<PrevResult>>] extends [never]
+				? never
+				: ((res: _Result.ExtractOk<_Result.OkFromUnlessError<PrevResult>>) => NextResult),
+			options?: SyncStepOptions
+		):
+			Define<Input, NextResult, NextErrorResult>
+
+		/**
+		 * Finish the definition and return the function which runs the pipeline for the initial value.
+		 */
+		(): (input: DefineInput<Input>) => _Result.OkFrom<PrevResult> | PrevErrorResult
+
+		/**
+		 * Add a recovery step: errors with one of the tags skip the transformers up to this step
+		 * and are passed to the handler, whose return continues the pipeline.
+		 *
+		 * @param tags Tag or tags of the recoverable errors.
+		 * @param handler Function that turns the error into a new result.
+		 */
+		catch <
+			Tag extends GetErrorTags<PrevErrorResult>,
+			NextResult extends _Utils.AllowedReturn,
+		> (
+			tags: Tag | Tag[],
+			handler: (error: Extract<PrevErrorResult, { tag: Tag }>) => NextResult
+		):
+			Define<
+				Input,
+				RecoveredResult<PrevResult, NextResult>,
+				Exclude<PrevErrorResult, { tag: Tag }> | _Result.ExtractError<NextResult>
+			>
+
+		/**
+		 * Add a recovery step for any error.
+		 *
+		 * @param handler Function that turns the error into a new result.
+		 */
+		catch <NextResult extends _Utils.AllowedReturn> (
+			handler: (error: PrevErrorResult) => NextResult
+		):
+			Define<
+				Input,
+				RecoveredResult<PrevResult, NextResult>,
+				_Result.ExtractError<NextResult>
+			>
+	}
+
+	/**
+	 * Defines a reusable synchronous pipeline. Unlike {@link Sync `Flow.Pipe.Sync`}, the initial value
+	 * is not bound at construction: finishing the definition with `()` returns a typed function
+	 * `(input) => Result`, which runs the steps for every call.
+	 *
+	 * The function also accepts the success result passed by the step of another pipeline,
+	 * so it can be composed into other pipelines as a single step.
+	 *
+	 * @template Input The initial value type.
+	 * @param options Tracing hooks of the pipeline.
+	 *
+	 * @example
+	 * ```typescript
+	 * const normalizeEmail = Flow.Pipe.Define<string>()
+	 *   (email => email.data.trim())
+	 *   (email => email.data.includes('@') ? email.data.toLowerCase() : Result.ErrorFrom(email.data, 'InvalidEmail'))
+	 *   ()
+	 *
+	 * normalizeEmail(' Ann@Example.com ')   // -> Result.Ok<string> | Result.Error<string, 'InvalidEmail'>
+	 *
+	 * const user = Flow.Pipe.Sync(form)
+	 *   (form => form.data.email)
+	 *   (normalizeEmail)   // -> Used as a single step
+	 *   ()
+	 * ```
+	 */
+	export function Define <Input extends _Utils.AllowedReturn> (options?: SyncOptions): Define<Input> {
+		return createDefine((input) => Sync(input, options) as unknown as PipeBuilder) as unknown as Define<Input>
+	}
+
+	export namespace Define
+	{
+		/**
+		 * Function which runs the defined asynchronous pipeline for the initial value.
+		 * If the signal is passed, the pipeline is cancelled by it.
+		 *
+		 * @template Input The initial value type.
+		 * @template Output The result of the pipeline.
+		 */
+		export type AsyncFunction<Input extends _Utils.AllowedReturn, Output extends _Result.Any> = {
+			(input: DefineInput<Input> | Promise<DefineInput<Input>>): Promise<Output>
+			(input: DefineInput<Input> | Promise<DefineInput<Input>>, signal: AbortSignal): Promise<Output | _Try.AbortOperationResult>
+		}
+
+		/**
+		 * A reusable asynchronous pipeline which receives the initial value when it is called.
+		 *
+		 * @template Input The initial value type.
+		 * @template PrevResult The current result type in the pipeline.
+		 * @template PrevErrorResult Union of all possible error types that can occur in the pipeline.
+		 */
+		export type Async <
+			Input extends _Utils.AllowedReturn,
+			PrevResult extends _Utils.AllowedReturn = Input,
+			PrevErrorResult extends _Result.AnyError = _Result.ExtractError<PrevResult>
+		> = {
+			/**
+			 * Add a function to the pipeline that processes the current result.
+			 *
+			 * @template NextResult The result type returned by the function.
+			 * @param transformer Function that processes the current result and returns a new result (sync or async).
+			 *                    Receives the signal aborted when the pipeline is aborted or the timeout of the step expires.
+			 * @param options Name, timeout and retry policy of the step.
+			 */
+			<
+				NextResult extends _Utils.AllowedReturn = never,
+				Options extends StepOptions = {},
+				NextErrorResult extends _Result.AnyError = PrevErrorResult | _Result.ExtractError<NextResult> | StepErrors<Options>
+			> (
+				transformer: [_Result.ExtractOk<_Result.OkFromUnlessError<PrevResult>>] extends [never]
+					? never
+					: ((res: _Result.ExtractOk<_Result.OkFromUnlessError<PrevResult>>, signal: AbortSignal) => NextResult | Promise<NextResult>),
+				options?: Options & StepOptions
+			):
+				Async<Input, NextResult, NextErrorResult>
+
+			/**
+			 * Finish the definition and return the function which runs the pipeline for the initial value.
+			 */
+			(): AsyncFunction<Input, _Result.OkFrom<PrevResult> | PrevErrorResult>
+
+			/**
+			 * Add a recovery step: errors with one of the tags skip the transformers up to this step
+			 * and are passed to the handler (sync or async), whose return continues the pipeline.
+			 *
+			 * @param tags Tag or tags of the recoverable errors.
+			 * @param handler Function that turns the error into a new result.
+			 */
+			catch <
+				Tag extends GetErrorTags<PrevErrorResult>,
+				NextResult extends _Utils.AllowedReturn,
+			> (
+				tags: Tag | Tag[],
+				handler: (error: Extract<PrevErrorResult, { tag: Tag }>) => NextResult | Promise<NextResult>
+			):
+				Async<
+					Input,
+					RecoveredResult<PrevResult, NextResult>,
+					Exclude<PrevErrorResult, { tag: Tag }> | _Result.ExtractError<NextResult>
+				>
+
+			/**
+			 * Add a recovery step for any error.
+			 *
+			 * @param handler Function that turns the error into a new result (sync or async).
+			 */
+			catch <NextResult extends _Utils.AllowedReturn> (
+				handler: (error: PrevErrorResult) => NextResult | Promise<NextResult>
+			):
+				Async<
+					Input,
+					RecoveredResult<PrevResult, NextResult>,
+					_Result.ExtractError<NextResult>
+				>
+		}
+
+		/**
+		 * Defines a reusable asynchronous pipeline, see {@link Define `Flow.Pipe.Define`}.
+		 * The defined function accepts the initial value (or a Promise of it) and an optional
+		 * cancellation signal, so inside {@link _Pipe.Async `Flow.Pipe.Async`} it receives the signal of the step.
+		 *
+		 * @template Input The initial value type.
+		 * @param options Tracing hooks of the pipeline.
+		 *
+		 * @example
+		 * ```typescript
+		 * const loadProfile = Flow.Pipe.Define.Async<number>()
+		 *   ((id, signal) => fetchUser(id.data, { signal }), { timeout: 1000 })
+		 *   (user => user.data.profile)
+		 *   ()
+		 *
+		 * await loadProfile(42)                      // -> Promise<Result.Ok<Profile> | Result.Error<...>>
+		 * await loadProfile(42, controller.signal)   // -> Cancellable
+		 *
+		 * const page = await Flow.Pipe.Async(Result.OkFrom(42))
+		 *   (loadProfile)   // -> Used as a single step, cancelled with the pipeline
+		 *   ()
+		 * ```
+		 */
+		export function Async <Input extends _Utils.AllowedReturn> (options?: SyncOptions): Async<Input> {
+			return createDefine((input, signal) => _Pipe.Async(input, { ...options, signal }) as unknown as PipeBuilder) as unknown as Async<Input>
+		}
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Context with the value bound to the name (rebinding replaces the previous value).
+	 *
+	 * @template Context Context of the previous steps.
+	 * @template Name Name of the new value.
+	 * @template Value New value.
+	 */
+	type BindContext<
+		Context extends Record<string, unknown>,
+		Name extends string,
+		Value
+	> =
+		| _Utils.Prettify<Omit<Context, Name> & { [K in Name]: Value }>
+
+	/**
+	 * Get the data of the success results returned by the step.
+	 *
+	 * @template NextResult The result type returned by the step.
+	 */
+	type BindValue<NextResult extends _Utils.AllowedReturn> =
+		| _Result.ExtractOk<_Result.OkFromUnlessError<NextResult>>['data']
+
+	/**
+	 * Add the value to the context: errors are returned as is and terminate the pipeline.
+	 *
+	 * @param name - Name of the value.
+	 * @param context - Current context.
+	 * @param result - Value or `Result` returned by the step.
+	 */
+	function bindResult (name: string, context: _Result.Any, result: unknown): _Result.Any {
+		const resultAsResult = _Result.OkFromUnlessError(result) as _Result.Any
+		return _Result.IsError(resultAsResult)
+			? resultAsResult
+			: _Result.OkFrom({ ...context.data, [name]: resultAsResult.data }) as _Result.Any
+	}
+
+	/**
+	 * A synchronous pipeline that accumulates the context: every step sees the typed context
+	 * of all previously bound names.
+	 *
+	 * @template Context Context of the previous steps.
+	 * @template ErrorResult Union of all possible error types that can occur in the pipeline.
+	 */
+	export type Do <
+		Context extends Record<string, unknown>,
+		ErrorResult extends _Result.AnyError = never
+	> = {
+		/**
+		 * Bind the data of the result returned by the function to the name. The error terminates the pipeline.
+		 *
+		 * @template Name Name of the value.
+		 * @template NextResult The result type returned by the function.
+		 * @param name Name of the value in the context.
+		 * @param fn Function that receives the context and returns a value or a `Result`.
+		 * @param options Name of the step, the bound name by default.
+		 */
+		bind <Name extends string, NextResult extends _Utils.AllowedReturn> (
+			name: Name,
+			fn: (ctx: Context) => NextResult,
+			options?: SyncStepOptions
+		):
+			Do<BindContext<Context, Name, BindValue<NextResult>>, ErrorResult | _Result.ExtractError<NextResult>>
+
+		/**
+		 * Bind the value returned by the function to the name as is (without unwrapping).
+		 *
+		 * @template Name Name of the value.
+		 * @template Value The value returned by the function.
+		 * @param name Name of the value in the context.
+		 * @param fn Function that receives the context and returns a value.
+		 */
+		let <Name extends string, Value> (
+			name: Name,
+			fn: (ctx: Context) => Value
+		):
+			Do<BindContext<Context, Name, Value>, ErrorResult>
+
+		/**
+		 * Execute the pipeline and return the accumulated context.
+		 */
+		(): _Result.Ok<Context> | ErrorResult
+	}
+
+	/**
+	 * Creates a synchronous pipeline that accumulates the context instead of passing
+	 * the previous result: `.bind(name, fn)` adds the data of the returned result,
+	 * `.let(name, fn)` adds the returned value as is. Every function receives the context
+	 * of all previously bound names, and errors terminate the pipeline as in {@link Sync `Flow.Pipe.Sync`}.
+	 *
+	 * @template Init The initial context.
+	 * @param init Initial context, an empty object by default.
+	 * @param options Tracing hooks of the pipeline.
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = Flow.Pipe.Do({ id: 42 })
+	 *   .bind('user', ctx => getUser(ctx.id))        // -> Result.Ok<User> | Result.Error<string, 'NotFound'>
+	 *   .bind('org', ctx => getOrg(ctx.user.orgId))  // -> Result.Ok<Org> | Result.Error<string, 'Forbidden'>
+	 *   .let('isAdmin', ctx => ctx.org.ownerId === ctx.user.id)
+	 *   ()   // -> Result.Ok<{ id: number, user: User, org: Org, isAdmin: boolean }> | Result.Error<...>
+	 * ```
+	 */
+	export function Do <Init extends Record<string, unknown> = {}> (init?: Init, options?: SyncOptions): Do<Init> {
+		const pipe = Sync(_Result.OkFrom(init ?? {}), options) as unknown as PipeBuilder
+
+		// Шаги контекста добавляются как обычные шаги конвейера:
+		const next = () => pipe()
+		next.bind = (name: string, fn: (ctx: unknown) => unknown, options?: SyncStepOptions) => {
+			pipe((ctx: _Result.Any) => bindResult(name, ctx, fn(ctx.data)), { name, ...options })
+			return next
+		}
+		next.let = (name: string, fn: (ctx: unknown) => unknown) => {
+			pipe((ctx: _Result.Any) => _Result.OkFrom({ ...ctx.data, [name]: fn(ctx.data) }), { name })
+			return next
+		}
+
+		return next as unknown as Do<Init>
+	}
+
+	export namespace Do
+	{
+		/**
+		 * An asynchronous pipeline that accumulates the context, see {@link Do `Flow.Pipe.Do`}.
+		 *
+		 * @template Context Context of the previous steps.
+		 * @template ErrorResult Union of all possible error types that can occur in the pipeline.
+		 */
+		export type Async <
+			Context extends Record<string, unknown>,
+			ErrorResult extends _Result.AnyError = never
+		> = {
+			/**
+			 * Bind the data of the result returned by the function to the name. The error terminates the pipeline.
+			 *
+			 * @template Name Name of the value.
+			 * @template NextResult The result type returned by the function.
+			 * @param name Name of the value in the context.
+			 * @param fn Function that receives the context and returns a value or a `Result` (sync or async).
+			 *           Receives the signal aborted when the pipeline is aborted or the timeout of the step expires.
+			 * @param options Name (the bound name by default), timeout and retry policy of the step.
+			 */
+			bind <
+				Name extends string,
+				NextResult extends _Utils.AllowedReturn,
+				Options extends StepOptions = {}
+			> (
+				name: Name,
+				fn: (ctx: Context, signal: AbortSignal) => NextResult | Promise<NextResult>,
+				options?: Options & StepOptions
+			):
+				Async<
+					BindContext<Context, Name, BindValue<NextResult>>,
+					ErrorResult | _Result.ExtractError<NextResult> | StepErrors<Options>
+				>
+
+			/**
+			 * Bind the value returned by the function to the name as is (without unwrapping).
+			 *
+			 * @template Name Name of the value.
+			 * @template Value The value returned by the function (sync or async).
+			 * @param name Name of the value in the context.
+			 * @param fn Function that receives the context and returns a value.
+			 */
+			let <Name extends string, Value> (
+				name: Name,
+				fn: (ctx: Context) => Value | Promise<Value>
+			):
+				Async<BindContext<Context, Name, Value>, ErrorResult>
+
+			/**
+			 * Execute the pipeline and return the accumulated context.
+			 */
+			(): Promise<_Result.Ok<Context> | ErrorResult>
+		}
+
+		/**
+		 * Creates an asynchronous pipeline that accumulates the context, see {@link Do `Flow.Pipe.Do`}.
+		 * Functions of the steps can be asynchronous, and `.bind` steps accept the options
+		 * of {@link _Pipe.Async `Flow.Pipe.Async`} steps.
+		 *
+		 * @template Init The initial context.
+		 * @param init Initial context, an empty object by default.
+		 * @param options Cancellation signal and tracing hooks of the pipeline.
+		 *
+		 * @example
+		 * ```typescript
+		 * const result = await Flow.Pipe.Do.Async({ id: 42 })
+		 *   .bind('user', (ctx, signal) => fetchUser(ctx.id, { signal }), { timeout: 1000 })
+		 *   .bind('orders', ctx => fetchOrders(ctx.user.id))
+		 *   .let('total', ctx => ctx.orders.length)
+		 *   ()
+		 * ```
+		 */
+		export function Async <
+			Init extends Record<string, unknown> = {},
+			Options extends AsyncOptions = {},
+		> (
+			init?: Init,
+			options?: Options
+		):
+			Async<Init, AsyncErrors<Options>>
+		{
+			const pipe = _Pipe.Async(_Result.OkFrom(init ?? {}), options) as unknown as PipeBuilder
+
+			// Шаги контекста добавляются как обычные шаги конвейера:
+			const next = () => pipe()
+			next.bind = (name: string, fn: (ctx: unknown, signal: AbortSignal) => unknown, options?: StepOptions) => {
+				pipe(async (ctx: _Result.Any, signal: AbortSignal) => bindResult(name, ctx, await fn(ctx.data, signal)), { name, ...options })
+				return next
+			}
+			next.let = (name: string, fn: (ctx: unknown) => unknown) => {
+				pipe(async (ctx: _Result.Any) => _Result.OkFrom({ ...ctx.data, [name]: await fn(ctx.data) }), { name })
+				return next
+			}
+
+			return next as unknown as Async<Init, AsyncErrors<Options>>
+		}
 	}
 }
\ No newline at end of file
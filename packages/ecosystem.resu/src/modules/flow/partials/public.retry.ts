@@ -0,0 +1,289 @@
+import { _Result } from '../../result'
+import { _Utils } from '../../../types/utils'
+import { _Try } from './public.try'
+
+export namespace _Retry
+{
+	type RETRY_EXHAUSTED_NAME = typeof RETRY_EXHAUSTED_NAME
+	const RETRY_EXHAUSTED_NAME = 'RetryExhausted'
+
+	// Retry exhausted class:
+	export class RetryExhaustedError<ErrorResult extends _Result.AnyError = _Result.AnyError> extends Error {
+		name = RETRY_EXHAUSTED_NAME
+
+		/**
+		 * @param errors Errors of every attempt.
+		 */
+		constructor (public errors: ErrorResult[]) {
+			super(`Retry exhausted after ${errors.length} attempts`)
+		}
+	}
+
+	// Retry exhausted error:
+	export type RetryExhaustedResult<ErrorResult extends _Result.AnyError = _Result.AnyError> =
+		| _Result.Error<RetryExhaustedError<ErrorResult>, RETRY_EXHAUSTED_NAME>
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Delay between the attempts:
+	 *
+	 * - `fixed` — the same `delay` before every retry.
+	 * - `exponential` — `delay * factor ** (attempt - 1)`, limited by `maxDelay`. With `jitter`
+	 *   a random delay from zero up to this value is used (full jitter).
+	 * - `decorrelated-jitter` — a random delay between `delay` and three times the previous delay,
+	 *   limited by `maxDelay`.
+	 */
+	export type Backoff =
+		| { type: 'fixed', delay: number }
+		| { type: 'exponential', delay: number, factor?: number, maxDelay?: number, jitter?: boolean }
+		| { type: 'decorrelated-jitter', delay: number, maxDelay: number }
+
+	/**
+	 * Source of time of the retry loop. A fake clock can be passed in tests.
+	 */
+	export type Clock = {
+		/**
+		 * Current time in milliseconds.
+		 */
+		now (): number
+		/**
+		 * Wait for the delay. Should resolve early when the signal is aborted.
+		 */
+		sleep (ms: number, signal?: AbortSignal): Promise<unknown>
+	}
+
+	/**
+	 * Information about the finished attempt.
+	 *
+	 * @template Result Result of the attempt.
+	 */
+	export type AttemptEvent<Result extends _Result.Any = _Result.Any> = {
+		/**
+		 * Number of the attempt, starting from one.
+		 */
+		attempt: number
+		/**
+		 * Result of the attempt.
+		 */
+		result: Result
+		/**
+		 * Time passed since the first attempt in milliseconds.
+		 */
+		elapsed: number
+		/**
+		 * Delay before the next attempt, `null` if there is no next attempt.
+		 */
+		delay: number | null
+	}
+
+	/**
+	 * Retry policy.
+	 *
+	 * @template ErrorResult Errors returned by the function.
+	 */
+	export type Policy<ErrorResult extends _Result.AnyError = _Result.AnyError> = {
+		/**
+		 * Maximum number of attempts, including the first one, `3` by default.
+		 */
+		attempts?: number
+		/**
+		 * Maximum time of retrying in milliseconds. The retry is not started if its delay would exceed it.
+		 */
+		maxElapsed?: number
+		/**
+		 * Delay between the attempts, no delay by default.
+		 */
+		backoff?: Backoff
+		/**
+		 * Tags of the retryable errors or a function deciding whether the error is retryable.
+		 * All errors are retried by default.
+		 */
+		retryOn?: Array<Exclude<ErrorResult['tag'], null>> | ((error: ErrorResult) => boolean)
+		/**
+		 * Cancellation signal. If `abort` is called, the waiting is interrupted and
+		 * {@link _Result.Error `Result.Error<Error, 'AbortOperation'>`} is returned.
+		 */
+		signal?: AbortSignal
+		/**
+		 * Called after every attempt.
+		 */
+		onAttempt?: (event: AttemptEvent<_Result.AnyOk | ErrorResult>) => void
+		/**
+		 * Source of time, the system clock by default.
+		 */
+		clock?: Clock
+		/**
+		 * Source of random numbers from `0` to `1` for the jitter, `Math.random` by default.
+		 */
+		random?: () => number
+	}
+
+	/**
+	 * Context of the attempt passed to the function.
+	 */
+	export type AttemptContext = {
+		/**
+		 * Number of the attempt, starting from one.
+		 */
+		attempt: number
+		/**
+		 * Cancellation signal of the policy.
+		 */
+		signal: AbortSignal | undefined
+	}
+
+	/**
+	 * Errors added by the policy.
+	 *
+	 * @template Options Retry policy.
+	 */
+	type PolicyErrors<Options extends Pick<Policy, 'signal'>> =
+		| Options extends { signal: AbortSignal } ? _Try.AbortOperationResult : never
+
+	/**
+	 * System clock based on `Date.now` and `setTimeout`.
+	 */
+	const SYSTEM_CLOCK: Clock = {
+		now: () => Date.now(),
+		sleep: (ms, signal) => new Promise<void>((resolve) => {
+			// Сигнал мог быть отменен еще во время попытки:
+			if (signal?.aborted) return resolve()
+
+			const done = () => {
+				clearTimeout(timer)
+				signal?.removeEventListener('abort', done)
+				resolve()
+			}
+			const timer = setTimeout(done, ms)
+			signal?.addEventListener('abort', done, { once: true })
+		}),
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Get the delay before the next attempt.
+	 *
+	 * @param backoff - Delay between the attempts.
+	 * @param attempt - Number of the failed attempt.
+	 * @param prevDelay - Previous delay (for the decorrelated jitter).
+	 * @param random - Source of random numbers.
+	 */
+	function getDelay (backoff: Backoff, attempt: number, prevDelay: number | undefined, random: () => number): number {
+		switch (backoff.type) {
+			case 'fixed':
+				return backoff.delay
+			case 'exponential': {
+				const delay = Math.min(backoff.delay * (backoff.factor ?? 2) ** (attempt - 1), backoff.maxDelay ?? Infinity)
+				return backoff.jitter ? random() * delay : delay
+			}
+			case 'decorrelated-jitter': {
+				const upper = (prevDelay ?? backoff.delay) * 3
+				return Math.min(backoff.delay + random() * (upper - backoff.delay), backoff.maxDelay)
+			}
+		}
+	}
+
+	/**
+	 * Result of {@link Retry `Flow.Retry`}: the result of the last attempt, the error of the exhausted policy
+	 * and the error of the aborted policy.
+	 *
+	 * @template Return Value or `Result` returned by the function.
+	 * @template Options Retry policy.
+	 */
+	export type Retry<
+		Return extends _Utils.AllowedReturn,
+		Options extends Pick<Policy, 'signal'> = {},
+	> =
+		| _Result.OkFromUnlessError<Return>
+		| RetryExhaustedResult<_Result.ExtractError<_Result.OkFromUnlessError<Return>>>
+		| PolicyErrors<Options>
+
+	/**
+	 * Calls the function until it returns {@link _Result.Ok `Result.Ok`} or the retry policy is exhausted:
+	 *
+	 * - An error is retried if it matches `retryOn` (tags or a predicate), other errors are returned as is.
+	 * - The delay between the attempts is set by `backoff`: `fixed`, `exponential` or `decorrelated-jitter`.
+	 * - When `attempts` or `maxElapsed` are exhausted, {@link _Result.Error `Result.Error<RetryExhaustedError, 'RetryExhausted'>`}
+	 *   is returned, and its `errors` contain the error of every attempt.
+	 * - `signal` cancels the waiting, {@link _Result.Error `Result.Error<Error, 'AbortOperation'>`} is returned then.
+	 * - `clock` and `random` can be replaced in tests.
+	 *
+	 * Values returned by the function are wrapped into {@link _Result.Ok `Result.Ok`} unless they are already a `Result`.
+	 * Exceptions are not caught: wrap throwing code into {@link _Try.Async `Flow.Try.Async`}.
+	 *
+	 * @template Return Value or `Result` returned by the function.
+	 * @template Options Retry policy.
+	 * @param fn Function called on every attempt, receives the number of the attempt and the signal.
+	 * @param policy Retry policy.
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await Flow.Retry(
+	 *   ({ signal }) => Flow.Try.Async({ try: () => fetchUser(id, { signal }), catch: () => Result.ErrorFrom('Network', 'NetworkError') }),
+	 *   { attempts: 5, backoff: { type: 'exponential', delay: 100, jitter: true }, retryOn: ['NetworkError'] }
+	 * )
+	 * // -> Result.Ok<User> | Result.Error<string, 'NetworkError'> | Result.Error<RetryExhaustedError<...>, 'RetryExhausted'>
+	 * ```
+	 */
+	export async function Retry <
+		Return extends _Utils.AllowedReturn,
+		Options extends Pick<Policy, 'signal'> = {},
+	> (
+		fn: (context: AttemptContext) => Return | Promise<Return>,
+		policy?: Options & Policy<_Result.ExtractError<_Result.OkFromUnlessError<Return>>>
+	):
+		Promise<Retry<Return, Options>>
+
+	// Signature implementation:
+	export async function Retry (
+		fn: (context: AttemptContext) => _Utils.AllowedReturn | Promise<_Utils.AllowedReturn>,
+		policy?: Policy<_Result.AnyError>
+	):
+		Promise<_Result.Any | RetryExhaustedResult | _Try.AbortOperationResult>
+	{
+		const {
+			attempts = 3,
+			maxElapsed = Infinity,
+			backoff = { type: 'fixed', delay: 0 },
+			retryOn = () => true,
+			signal,
+			onAttempt,
+			clock = SYSTEM_CLOCK,
+			random = Math.random,
+		} = policy ?? {}
+
+		const isRetryable = Array.isArray(retryOn) ? (error: _Result.AnyError) => retryOn.includes(error.tag as string) : retryOn
+		const startedAt = clock.now()
+		const errors: _Result.AnyError[] = []
+		let delay: number | undefined
+
+		for (let attempt = 1; ; attempt++) {
+			// Отмена до начала попытки (в том числе во время ожидания):
+			if (signal?.aborted) {
+				const error = new _Try.AbortOperationError(signal.reason)
+				return _Result.ErrorFrom(error, error.name)
+			}
+
+			const result = _Result.OkFromUnlessError(await fn({ attempt, signal })) as _Result.Any
+			const elapsed = clock.now() - startedAt
+
+			if (!_Result.IsError(result) || !isRetryable(result)) {
+				onAttempt?.({ attempt, result, elapsed, delay: null })
+				return result
+			}
+
+			errors.push(result)
+			delay = getDelay(backoff, attempt, delay, random)
+
+			// Попытки исчерпаны, если следующая превышает лимит количества или времени:
+			const isExhausted = attempt >= attempts || elapsed + delay > maxElapsed
+			onAttempt?.({ attempt, result, elapsed, delay: isExhausted ? null : delay })
+			if (isExhausted) return _Result.ErrorFrom(new RetryExhaustedError(errors), RETRY_EXHAUSTED_NAME)
+
+			// Отмененная во время попытки операция не ждет задержку:
+			if (!signal?.aborted) await clock.sleep(delay, signal)
+		}
+	}
+}
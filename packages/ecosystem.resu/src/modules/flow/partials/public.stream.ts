@@ -0,0 +1,212 @@
+import { _Result } from '../../result'
+import { _Utils } from '../../../types/utils'
+
+export namespace _Stream
+{
+	/**
+	 * Source of the items: an async iterable, an iterable or a Web `ReadableStream`.
+	 *
+	 * @template Item Item of the source.
+	 */
+	export type Source<Item> =
+		| AsyncIterable<Item>
+		| Iterable<Item>
+		| ReadableStream<Item>
+
+	/**
+	 * Pipeline applied to every item, e.g. defined with `Flow.Pipe.Define.Async`.
+	 * Receives the signal aborted when the stream is halted or closed by the consumer.
+	 *
+	 * @template Item Item of the source.
+	 * @template Return Value or `Result` returned by the pipeline.
+	 */
+	export type Pipeline<Item, Return extends _Utils.AllowedReturn> =
+		| ((item: Item, signal: AbortSignal) => Return | Promise<Return>)
+
+	/**
+	 * Result emitted for the item.
+	 *
+	 * @template Return Value or `Result` returned by the pipeline.
+	 */
+	export type StreamResult<Return extends _Utils.AllowedReturn> =
+		| _Result.OkFromUnlessError<Return>
+
+	/**
+	 * Get all non-null tags of the emitted errors.
+	 *
+	 * @template Result Result emitted for the item.
+	 */
+	type GetErrorTags<Result> =
+		| Exclude<_Result.ExtractError<Result>['tag'], null>
+
+	/**
+	 * Options of the stream.
+	 *
+	 * @template Tag Tags of the emitted errors.
+	 */
+	export type Options<Tag = string> = {
+		/**
+		 * Maximum number of items processed at the same time, `1` by default.
+		 * The source is read only when there is a free slot and the consumer requested the next result.
+		 */
+		concurrency?: number
+		/**
+		 * Halt the stream after emitting the first error (`true`) or the first error with one of the tags.
+		 * Items being processed are aborted, and the source is closed.
+		 */
+		halt?: boolean | Tag[]
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Get the iterator of the source. The iterator of the `ReadableStream` cancels the stream on `return`.
+	 *
+	 * @param source - Source of the items.
+	 */
+	function getIterator<Item> (source: Source<Item>): AsyncIterator<Item> | Iterator<Item> {
+		const isReadableStream = typeof (source as ReadableStream<Item>).getReader === 'function'
+		if (!isReadableStream) return Symbol.asyncIterator in source
+			? (source as AsyncIterable<Item>)[Symbol.asyncIterator]()
+			: (source as Iterable<Item>)[Symbol.iterator]()
+
+		const reader = (source as ReadableStream<Item>).getReader()
+		return {
+			next: () => reader.read() as Promise<IteratorResult<Item>>,
+			return: async () => (await reader.cancel(), { done: true, value: undefined }),
+		}
+	}
+
+	/**
+	 * Check if the stream should be halted on the result.
+	 *
+	 * @param result - Emitted result.
+	 * @param halt - Halting option of the stream.
+	 */
+	function shouldHalt (result: _Result.Any, halt: Options<unknown>['halt']): boolean {
+		if (!halt || !_Result.IsError(result)) return false
+		return halt === true || halt.includes(result.tag)
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Applies the pipeline to every item of the source and emits one {@link _Result.Any `Result`}
+	 * per item in the order of the source. The returned values are wrapped into
+	 * {@link _Result.Ok `Result.Ok`} unless they are already a `Result`.
+	 *
+	 * - `concurrency` limits the number of items processed at the same time. The source is read
+	 *   only when the consumer requests the next result (backpressure).
+	 * - `halt` stops the stream after emitting the first error, or the first error with one of the tags.
+	 * - If the pipeline throws, the stream throws the error.
+	 *
+	 * @template Item Item of the source.
+	 * @template Return Value or `Result` returned by the pipeline.
+	 * @param source Async iterable, iterable or `ReadableStream` of the items.
+	 * @param pipeline Function (or defined pipeline) applied to every item.
+	 * @param options Concurrency and halting options.
+	 *
+	 * @example
+	 * ```typescript
+	 * const importRow = Flow.Pipe.Define.Async<Row>()
+	 *   (row => validateRow(row.data))
+	 *   ((row, signal) => saveRow(row.data, { signal }))
+	 *   ()
+	 *
+	 * for await (const result of Flow.Pipe.Stream(readRows(file), importRow, { concurrency: 4, halt: ['Fatal'] })) {
+	 *   if (Result.IsError(result)) report(result)
+	 * }
+	 * ```
+	 */
+	export async function * Stream <Item, Return extends _Utils.AllowedReturn> (
+		source: Source<Item>,
+		pipeline: Pipeline<Item, Return>,
+		options?: Options<GetErrorTags<StreamResult<Return>>>
+	):
+		AsyncGenerator<StreamResult<Return>, void, undefined>
+	{
+		const iterator = getIterator(source)
+		const controller = new AbortController()
+		const concurrency = Math.max(1, options?.concurrency ?? 1)
+
+		// Результаты обрабатываемых элементов в порядке источника:
+		const pending: Array<Promise<_Result.Any>> = []
+		let isDone = false
+
+		try {
+			while (true) {
+				// Читаем источник, пока есть свободные слоты:
+				while (!isDone && pending.length < concurrency) {
+					const next = await iterator.next()
+					if (next.done) {
+						isDone = true
+						break
+					}
+
+					const result = Promise.resolve()
+						.then(() => pipeline(next.value, controller.signal))
+						.then((value) => _Result.OkFromUnlessError(value) as _Result.Any)
+
+					// Ошибка будет выброшена при ожидании результата, здесь лишь предотвращаем `unhandledrejection`:
+					result.catch(() => {})
+					pending.push(result)
+				}
+
+				const result = await pending.shift()
+				if (!result) return
+
+				yield result as StreamResult<Return>
+				if (shouldHalt(result, options?.halt)) return
+			}
+		}
+		finally {
+			// Прерываем обрабатываемые элементы и закрываем источник, если он не прочитан до конца:
+			controller.abort()
+			if (!isDone) await iterator.return?.()
+		}
+	}
+
+	export namespace Stream
+	{
+		/**
+		 * Creates the transform stream pair which applies the pipeline to every written item and emits
+		 * one {@link _Result.Any `Result`} per item, see {@link Stream `Flow.Pipe.Stream`}.
+		 * Results are produced only when they are read, so the writable side gets the backpressure.
+		 *
+		 * @template Item Item of the source.
+		 * @template Return Value or `Result` returned by the pipeline.
+		 * @param pipeline Function (or defined pipeline) applied to every item.
+		 * @param options Concurrency and halting options.
+		 *
+		 * @example
+		 * ```typescript
+		 * const results = file.stream()
+		 *   .pipeThrough(new TextDecoderStream())
+		 *   .pipeThrough(splitLines())
+		 *   .pipeThrough(Flow.Pipe.Stream.Transform(importRow, { concurrency: 4 }))
+		 * ```
+		 */
+		export function Transform <Item, Return extends _Utils.AllowedReturn> (
+			pipeline: Pipeline<Item, Return>,
+			options?: Options<GetErrorTags<StreamResult<Return>>>
+		):
+			ReadableWritablePair<StreamResult<Return>, Item>
+		{
+			const { readable, writable } = new TransformStream<Item, Item>()
+			const iterator = Stream(readable, pipeline, options)
+
+			return {
+				writable,
+				readable: new ReadableStream<StreamResult<Return>>({
+					pull: async (controller) => {
+						const next = await iterator.next()
+						next.done ? controller.close() : controller.enqueue(next.value)
+					},
+					cancel: async () => {
+						await iterator.return()
+					},
+				}, { highWaterMark: 0 }),
+			}
+		}
+	}
+}
@@ -0,0 +1,213 @@
+import { _Result } from '../../result'
+
+export namespace _Trace
+{
+	/**
+	 * Information about the step of the pipeline.
+	 */
+	export type StepEvent = {
+		/**
+		 * Position of the step in the pipeline, starting from zero.
+		 */
+		index: number
+		/**
+		 * Name of the step, if it was given.
+		 */
+		name: string | undefined
+		/**
+		 * Result passed to the step.
+		 */
+		input: _Result.Any
+	}
+
+	/**
+	 * Information about the finished step of the pipeline.
+	 */
+	export type StepEndEvent = StepEvent & {
+		/**
+		 * Result returned by the step.
+		 */
+		output: _Result.Any
+		/**
+		 * Duration of the step in milliseconds.
+		 */
+		duration: number
+	}
+
+	/**
+	 * Information about the step of the pipeline which threw an error (or whose promise was rejected).
+	 */
+	export type StepErrorEvent = StepEvent & {
+		/**
+		 * Thrown error, rethrown after the hook.
+		 */
+		error: unknown
+		/**
+		 * Duration of the step in milliseconds.
+		 */
+		duration: number
+	}
+
+	/**
+	 * Hooks called while the pipeline runs.
+	 */
+	export type Hooks = {
+		/**
+		 * Called before the step runs.
+		 */
+		onStepStart?: (event: StepEvent) => void
+		/**
+		 * Called after the step returns.
+		 */
+		onStepEnd?: (event: StepEndEvent) => void
+		/**
+		 * Called instead of `onStepEnd` if the step throws or its promise is rejected.
+		 */
+		onStepError?: (event: StepErrorEvent) => void
+		/**
+		 * Called for every step skipped because of the error (early termination).
+		 * The error is passed as the `input`.
+		 */
+		onShortCircuit?: (event: StepEvent) => void
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Value of the span attribute.
+	 */
+	type AttributeValue = string | number | boolean
+
+	/**
+	 * Span compatible with the `Span` of OpenTelemetry.
+	 */
+	export type Span = {
+		setAttribute (key: string, value: AttributeValue): unknown
+		setStatus (status: { code: number, message?: string }): unknown
+		end (): unknown
+	}
+
+	/**
+	 * Tracer compatible with the `Tracer` of OpenTelemetry.
+	 */
+	export type Tracer = {
+		startSpan (name: string, options?: { attributes?: Record<string, AttributeValue> }): Span
+	}
+
+	/**
+	 * Options of the tracer adapter.
+	 */
+	export type TraceOptions = {
+		/**
+		 * Prefix of the span names, `pipe` by default.
+		 */
+		prefix?: string
+	}
+
+	// Коды статуса span из OpenTelemetry (`SpanStatusCode`):
+	const SPAN_STATUS_OK = 1
+	const SPAN_STATUS_ERROR = 2
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Get the attributes of the step.
+	 *
+	 * @param event - Information about the step.
+	 */
+	function getStepAttributes (event: StepEvent): Record<string, AttributeValue> {
+		return {
+			'pipe.step.index': event.index,
+			...(event.name === undefined ? {} : { 'pipe.step.name': event.name }),
+		}
+	}
+
+	/**
+	 * Set the result of the step to the span.
+	 *
+	 * @param span - Span of the step.
+	 * @param result - Result returned by the step.
+	 */
+	function setResult (span: Span, result: _Result.Any): void {
+		span.setAttribute('result.status', result.status)
+		if (result.tag !== null) span.setAttribute('result.tag', String(result.tag))
+
+		span.setStatus(_Result.IsError(result)
+			? { code: SPAN_STATUS_ERROR, message: result.tag === null ? 'error' : String(result.tag) }
+			: { code: SPAN_STATUS_OK }
+		)
+	}
+
+	/**
+	 * Set the error thrown by the step to the span.
+	 *
+	 * @param span - Span of the step.
+	 * @param error - Thrown error.
+	 */
+	function setError (span: Span, error: unknown): void {
+		span.setAttribute('pipe.step.thrown', true)
+		span.setStatus({ code: SPAN_STATUS_ERROR, message: error instanceof globalThis.Error ? error.message : String(error) })
+	}
+
+	/**
+	 * Create tracing hooks which report every step of the pipeline as a span of the tracer.
+	 * Any tracer with the shape of the OpenTelemetry `Tracer` can be passed.
+	 *
+	 * - The span of the step is named `<prefix>.<name>` (or `<prefix>.<index>` for unnamed steps).
+	 * - The span has the `pipe.step.index`, `pipe.step.name`, `pipe.step.duration_ms`, `result.status` and `result.tag` attributes.
+	 * - The status of the span is `ERROR` with the tag as the message for error results, `OK` otherwise.
+	 * - If the step throws, the span is ended with the `ERROR` status, the error message and the `pipe.step.thrown` attribute.
+	 * - Skipped steps are reported as spans with the `pipe.step.skipped` attribute.
+	 *
+	 * @param tracer - OpenTelemetry-like tracer.
+	 * @param options - Options of the adapter.
+	 *
+	 * @example
+	 * ```typescript
+	 * const tracer = trace.getTracer('checkout')
+	 *
+	 * const result = await Flow.Pipe.Async(Result.OkFrom(order), { trace: Flow.Pipe.Trace(tracer) })
+	 *   (validateOrder, { name: 'validate' })
+	 *   (chargeCard, { name: 'charge' })
+	 *   ()
+	 * ```
+	 */
+	export function Trace (tracer: Tracer, options?: TraceOptions): Hooks {
+		const prefix = options?.prefix ?? 'pipe'
+		const getSpanName = (event: StepEvent) => `${prefix}.${event.name ?? event.index}`
+
+		// Span шага ищем по входному результату и позиции шага, так как события начала и конца — разные объекты:
+		const spans = new WeakMap<_Result.Any, Map<number, Span>>()
+
+		return {
+			onStepStart: (event) => {
+				const span = tracer.startSpan(getSpanName(event), { attributes: getStepAttributes(event) })
+				const inputSpans = spans.get(event.input) ?? new Map<number, Span>()
+				spans.set(event.input, inputSpans.set(event.index, span))
+			},
+			onStepEnd: (event) => {
+				const span = spans.get(event.input)?.get(event.index)
+				if (!span) return
+
+				spans.get(event.input)!.delete(event.index)
+				span.setAttribute('pipe.step.duration_ms', event.duration)
+				setResult(span, event.output)
+				span.end()
+			},
+			onStepError: (event) => {
+				const span = spans.get(event.input)?.get(event.index)
+				if (!span) return
+
+				spans.get(event.input)!.delete(event.index)
+				span.setAttribute('pipe.step.duration_ms', event.duration)
+				setError(span, event.error)
+				span.end()
+			},
+			onShortCircuit: (event) => {
+				const span = tracer.startSpan(getSpanName(event), { attributes: { ...getStepAttributes(event), 'pipe.step.skipped': true } })
+				setResult(span, event.input)
+				span.end()
+			},
+		}
+	}
+}
@@ -48,6 +48,8 @@ export namespace _Try
 	 *
 	 * - `try` may return {@link _Result.Ok `Result.Ok`} to set the tag and result data.
 	 * - `catch` may return {@link _Result.Error `Result.Error`} to set the tag and error data.
+	 * - {@link _Result.ResultError `ResultError`} thrown by `try` is not passed to `catch`, the original result is returned instead.
+	 *   Its type is not included in the return type, since any result can be thrown.
 	 *
 	 * @param config Callbacks for execution and error handling.
 	 */
@@ -85,6 +87,10 @@ export namespace _Try
 			return result as TryReturn<Ok, Error>
 		}
 		catch (error) {
+			// Результат, выброшенный через `Result.Unwrap` и т.п., возвращаем как есть:
+			const isResultError = error instanceof _Result.ResultError
+			if (isResultError) return error.cause as TryReturn<Ok, Error>
+
 			const catchFuncResult = catchFunc(error)
 			const result = _Result.IsResult(catchFuncResult) ? catchFuncResult : _Result.ErrorFrom(catchFuncResult)
 			return result as TryReturn<Ok, Error>
@@ -97,23 +103,43 @@ export namespace _Try
 	const ABORT_OPERATION_NAME = 'AbortOperation'
 
 	// Abort operation error:
-	type AbortOperationResult = _Result.Error<globalThis.Error, ABORT_OPERATION_NAME>
+	export type AbortOperationResult = _Result.Error<globalThis.Error, ABORT_OPERATION_NAME>
 
 	// Abort operation class:
 	export class AbortOperationError extends Error {
 		name = ABORT_OPERATION_NAME
 		message = 'Operation aborted'
+
+		/**
+		 * @param reason Reason of the abort, `signal.reason`.
+		 */
+		constructor (public reason?: unknown) {
+			super()
+		}
+	}
+
+	type TIMEOUT_NAME = typeof TIMEOUT_NAME
+	const TIMEOUT_NAME = 'Timeout'
+
+	// Timeout error:
+	export type TimeoutResult = _Result.Error<globalThis.Error, TIMEOUT_NAME>
+
+	// Timeout class:
+	export class TimeoutError extends Error {
+		name = TIMEOUT_NAME
+		message = 'Operation timed out'
 	}
 
 	/**
-	 * Executes a promise and catches errors.
+	 * Executes a promise and catches errors. Receives the signal aborted when the operation
+	 * is cancelled or its timeout expires, so the underlying work can be stopped.
 	 *
 	 * @template Ok Result data or `Result`.
 	 */
 	type AsyncFunction<
 		Ok extends _Utils.AllowedReturn,
 	> =
-		| (() => Promise<Ok>)
+		| ((signal: AbortSignal) => Promise<Ok>)
 
 	/**
 	 * Configuration for executing a promise and handling errors.
@@ -150,12 +176,47 @@ export namespace _Try
 		catch: (error: unknown) => Error
 	}
 
+	/**
+	 * Configuration for executing a promise and handling errors
+	 * with the time limit of the operation.
+	 *
+	 * @template Ok Result data or `Result` tagged as success.
+	 * @template Error Result data or `Result` tagged as error.
+	 */
+	type AsyncConfigWithTimeout<
+		Ok extends _Utils.AllowedReturn,
+		Error extends unknown | _Utils.AllowedReturn = _Result.Error<unknown>
+	> =
+		| AsyncConfig<Ok, Error> & { timeout: number }
+
 	/**
 	 * Executes the promise `config.try` and intercepts errors via `config.catch`:
 	 *
 	 * - `try` may return {@link _Result.Ok `Result.Ok`} to set the tag and result data.
 	 * - `catch` may return {@link _Result.Error `Result.Error`} to set the tag and error data.
 	 * - `signal` is a cancellation signal. If `abort` is called, it returns {@link _Result.Error `Result.Error<Error, 'AbortOperation'>`}.
+	 * - `timeout` is the time limit in milliseconds. If it expires, it returns {@link _Result.Error `Result.Error<Error, 'Timeout'>`}.
+	 * - `try` receives the signal aborted in both cases.
+	 *
+	 * @param config Callbacks for execution and error handling.
+	 */
+	export function Async<
+		Ok extends _Utils.AllowedReturn,
+		Error extends unknown | _Utils.AllowedReturn = _Result.Error<unknown>
+	> (
+		config: AsyncConfigWithSignal<Ok, Error> & { timeout: number }
+	):
+		Promise<_Utils.Prettify<TryReturn<Ok, Error> | AbortOperationResult | TimeoutResult>>
+
+	/**
+	 * Executes the promise `config.try` and intercepts errors via `config.catch`:
+	 *
+	 * - `try` may return {@link _Result.Ok `Result.Ok`} to set the tag and result data.
+	 * - `catch` may return {@link _Result.Error `Result.Error`} to set the tag and error data.
+	 * - `signal` is a cancellation signal. If `abort` is called, it returns {@link _Result.Error `Result.Error<Error, 'AbortOperation'>`}
+	 *   with the abort reason in `reason`, and the signal passed to `try` is aborted.
+	 * - {@link _Result.ResultError `ResultError`} thrown by `try` is not passed to `catch`, the original result is returned instead.
+	 *   Its type is not included in the return type, since any result can be thrown.
 	 *
 	 * @param config Callbacks for execution and error handling.
 	 */
@@ -167,6 +228,24 @@ export namespace _Try
 	):
 		Promise<_Utils.Prettify<TryReturn<Ok, Error> | AbortOperationResult>>
 
+	/**
+	 * Executes the promise `config.try` and intercepts errors via `config.catch`:
+	 *
+	 * - `try` may return {@link _Result.Ok `Result.Ok`} to set the tag and result data.
+	 * - `catch` may return {@link _Result.Error `Result.Error`} to set the tag and error data.
+	 * - `timeout` is the time limit in milliseconds. If it expires, it returns {@link _Result.Error `Result.Error<Error, 'Timeout'>`},
+	 *   and the signal passed to `try` is aborted.
+	 *
+	 * @param config Callbacks for execution and error handling.
+	 */
+	export function Async<
+		Ok extends _Utils.AllowedReturn,
+		Error extends unknown | _Utils.AllowedReturn = _Result.Error<unknown>
+	> (
+		config: AsyncConfigWithTimeout<Ok, Error>
+	):
+		Promise<_Utils.Prettify<TryReturn<Ok, Error> | TimeoutResult>>
+
 	/**
 	 * Executes the promise `config.try` and intercepts errors via `config.catch`:
 	 *
@@ -202,28 +281,40 @@ export namespace _Try
 			| AsyncFunction<Ok>
 			| AsyncConfig<Ok, Error>
 			| AsyncConfigWithSignal<Ok, Error>
+			| AsyncConfigWithTimeout<Ok, Error>
 	):
-		Promise<TryReturn<Ok, Error> | AbortOperationResult>
+		Promise<TryReturn<Ok, Error> | AbortOperationResult | TimeoutResult>
 	{
 		const tryFunc = (typeof arg === 'object' ? arg.try : arg) as AsyncFunction<Ok>
 		const catchFunc = (typeof arg === 'object' && 'catch' in arg ? arg.catch : null) || ((data: unknown) => _Result.Error({ data, log: false }))
 		const signal = typeof arg === 'object' && 'signal' in arg ? arg.signal : undefined
+		const timeout = typeof arg === 'object' && 'timeout' in arg ? arg.timeout : undefined
 
 		// Проверяем, не отменена ли операция еще до начала:
 		if (signal?.aborted) return <AbortOperationResult> _Result.Error({
-			data: new AbortOperationError(),
+			data: new AbortOperationError(signal.reason),
 			tag: ABORT_OPERATION_NAME,
 		})
 
+		// Производный сигнал для `try`: отменяется сигналом пользователя или по таймауту:
+		const controller = new AbortController()
+		let onAbort: (() => void) | undefined
+		let timer: ReturnType<typeof setTimeout> | undefined
+
 		try {
-			const tryPromise = tryFunc()
-			const abortPromise = !signal ? null : new Promise((_, rej) => {
-				signal.addEventListener('abort', () => {
-					rej(new AbortOperationError())
-				}, { once: true })
+			const tryPromise = tryFunc(controller.signal)
+			const abortPromise = !signal && timeout === undefined ? null : new Promise((_, rej) => {
+				const abort = (error: globalThis.Error) => {
+					controller.abort(error)
+					rej(error)
+				}
+
+				onAbort = () => abort(new AbortOperationError(signal!.reason))
+				signal?.addEventListener('abort', onAbort, { once: true })
+				if (timeout !== undefined) timer = setTimeout(() => abort(new TimeoutError()), timeout)
 			})
 
-			// Гонка между выполнением и отменой:
+			// Гонка между выполнением, отменой и таймаутом:
 			const tryFuncResult = abortPromise
 				? await Promise.race([tryPromise, abortPromise])
 				: await tryPromise
@@ -232,9 +323,16 @@ export namespace _Try
 			return result as TryReturn<Ok, Error>
 		}
 		catch (error) {
+			// Результат, выброшенный через `Result.Unwrap` и т.п., возвращаем как есть:
+			const isResultError = error instanceof _Result.ResultError
+			if (isResultError) return error.cause as TryReturn<Ok, Error>
+
 			const isAbortedOperation = error instanceof Error && error.name === ABORT_OPERATION_NAME
 			if (isAbortedOperation) return _Result.ErrorFrom(error, ABORT_OPERATION_NAME) as any as AbortOperationResult
 
+			const isTimeout = error instanceof TimeoutError
+			if (isTimeout) return _Result.ErrorFrom(error, TIMEOUT_NAME) as any as TimeoutResult
+
 			const catchFuncResult = catchFunc(error)
 			const result = _Result.IsResult(catchFuncResult)
 				? catchFuncResult
@@ -242,5 +340,10 @@ export namespace _Try
 
 			return result as TryReturn<Ok, Error>
 		}
+		finally {
+			// Снимаем обработчик отмены и таймер, чтобы не удерживать завершенную операцию:
+			clearTimeout(timer)
+			if (onAbort) signal?.removeEventListener('abort', onAbort)
+		}
 	}
 }
\ No newline at end of file
@@ -4,5 +4,12 @@ export namespace _Logger {
 	export let LogOkResult = false
 	export let LogErrorResult = false
 
+	/**
+	 * Called once per brand version when a result created by an incompatible copy of the library is met
+	 * (see `Result.Compatibility`). Nothing is reported by default.
+	 */
+	export let OnIncompatibleCopy: null | ((message: string) => void) = null
+
 	export import Engine = _Engine.Engine
+	export import EngineDetails = _Engine.EngineDetails
 }
\ No newline at end of file
@@ -2,6 +2,17 @@ import { _Result } from '../../result'
 
 export namespace _Engine
 {
-	export type Engine = null | ((result: _Result.Any) => Promise<any>)
+	/**
+	 * Additional information about the logged result.
+	 */
+	export type EngineDetails = {
+		/**
+		 * Chain of causes of an error result, from the direct cause to the root one.
+		 * Always empty for success results.
+		 */
+		causes: unknown[]
+	}
+
+	export type Engine = null | ((result: _Result.Any, details: EngineDetails) => Promise<any>)
 	export let Engine: Engine = null
 }
\ No newline at end of file
@@ -1,5 +1,13 @@
 import { _Ok } from './partials/public.ok'
 import { _Error } from './partials/public.error'
+import { _Combine } from './partials/public.combine'
+import { _Cause } from './partials/public.cause'
+import { _Unwrap } from './partials/public.unwrap'
+import { _Transform } from './partials/public.transform'
+import { _Define } from './partials/public.define'
+import { _Validate } from './partials/public.validate'
+import { _Serialize } from './partials/public.serialize'
+import { _Helpers } from './partials/private.helpers'
 
 export namespace _Result
 {
@@ -22,6 +30,58 @@ export namespace _Result
 	export import TaggedError = _Error.TaggedError
 	export import ExtractError = _Error.ExtractError
 	export import ExcludeError = _Error.ExcludeError
+	export import ErrorParams = _Error.ErrorParams
+
+	// Aliasing `Cause` namspace:
+	export import Wrap = _Cause.Wrap
+	export import Causes = _Cause.Causes
+	export import RootCause = _Cause.RootCause
+	export import CausedBy = _Cause.CausedBy
+
+	// Aliasing `Unwrap` namspace:
+	export import ResultError = _Unwrap.ResultError
+	export import Unwrap = _Unwrap.Unwrap
+	export import UnwrapOr = _Unwrap.UnwrapOr
+	export import UnwrapOrElse = _Unwrap.UnwrapOrElse
+	export import Expect = _Unwrap.Expect
+	export import UnwrapError = _Unwrap.UnwrapError
+
+	// Aliasing `Transform` namspace:
+	export import Map = _Transform.Map
+	export import MapError = _Transform.MapError
+	export import FlatMap = _Transform.FlatMap
+	export import Tap = _Transform.Tap
+	export import TapError = _Transform.TapError
+	export import OrElse = _Transform.OrElse
+	export import Recover = _Transform.Recover
+	export import Swap = _Transform.Swap
+
+	// Aliasing `Define` namspace:
+	export import Define = _Define.Define
+	export import Catalog = _Define.Catalog
+	export import Members = _Define.Members
+
+	// Aliasing `Validate` namspace:
+	export import Validate = _Validate.Validate
+	export import Schema = _Validate.Schema
+	export import ValidationIssue = _Validate.ValidationIssue
+	export import ValidationError = _Validate.ValidationError
+
+	// Aliasing `Combine` namspace:
+	export import All = _Combine.All
+	export import AllSettled = _Combine.AllSettled
+	// `Any` is also the type of any result, so only the function is aliased:
+	export const Any = _Combine.Any
+
+	// Aliasing `Serialize` namspace:
+	export import Wire = _Serialize.Wire
+	export import Codec = _Serialize.Codec
+	export import Codecs = _Serialize.Codecs
+	export import DeserializeError = _Serialize.DeserializeError
+	export import ToWire = _Serialize.ToWire
+	export import Serialize = _Serialize.Serialize
+	export import Deserialize = _Serialize.Deserialize
+	export import Reviver = _Serialize.Reviver
 
 	// ---------------------------------------------------------------------
 
@@ -50,5 +110,39 @@ export namespace _Result
 	export function IsResult (value: unknown): value is Any {
 		return IsOk(value) || IsError(value)
 	}
-}
 
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Check if the value is a result created by a compatible copy of the library.
+	 *
+	 * Results are branded with keys from the global symbol registry, so results created
+	 * by another copy of the library (another bundle, CJS and ESM builds) are recognized
+	 * as long as its brand version is the same.
+	 *
+	 * - `compatible` — a result that is recognized by {@link IsResult `Result.IsResult`}.
+	 * - `incompatible` — a result created by a copy with a different brand version.
+	 * - `null` — not a result.
+	 *
+	 * @param value - Source value.
+	 */
+	export function Compatibility (value: unknown): _Helpers.Brand.Compatibility {
+		return _Helpers.Brand.Check(value, 'ok') ?? _Helpers.Brand.Check(value, 'error')
+	}
+
+	export namespace Compatibility
+	{
+		/**
+		 * Get the brand versions of all copies of the library loaded in the process.
+		 * More than one version means that some results are not recognized between the copies.
+		 *
+		 * @example
+		 * ```typescript
+		 * if (Result.Compatibility.Versions().length > 1) console.warn('Incompatible copies of @wambata/resu are loaded')
+		 * ```
+		 */
+		export function Versions (): number[] {
+			return _Helpers.Brand.Versions()
+		}
+	}
+}
@@ -1,7 +1,108 @@
 import { _Utils } from '../../../types/utils'
+import { _Serialize } from './public.serialize'
+import { _Logger } from '../../logger'
 
 export namespace _Helpers
 {
+	export namespace Brand
+	{
+		/**
+		 * Version of the result brand. It is not tied to the package version: it is increased only
+		 * when the shape of the result (`status`, `data`, `tag` and the brand keys) changes incompatibly,
+		 * so copies of the library with the same brand version recognize each other's results
+		 * across package majors. Bump it together with such a change and mention it in the changelog.
+		 */
+		export const VERSION = 1
+
+		const NAMESPACE = '@wambata/resu'
+
+		/**
+		 * Kind of the result brand.
+		 */
+		export type Kind = 'ok' | 'error'
+
+		/**
+		 * Compatibility of a value with the current copy of the library:
+		 *
+		 * - `compatible` — a result created by any copy with the same brand version.
+		 * - `incompatible` — a result created by a copy with a different brand version.
+		 * - `null` — not a result.
+		 */
+		export type Compatibility = 'compatible' | 'incompatible' | null
+
+		/**
+		 * Keys under which the brand is stored. They are taken from the global
+		 * symbol registry, so they are the same for every copy of the library.
+		 */
+		export const KEYS: Record<Kind, symbol> = {
+			ok: Symbol.for(`${NAMESPACE}/ok`),
+			error: Symbol.for(`${NAMESPACE}/error`),
+		}
+
+		/**
+		 * Brands of the current version stored under {@link KEYS}.
+		 */
+		export const BRANDS: Record<Kind, symbol> = {
+			ok: Symbol.for(`${NAMESPACE}/ok@${VERSION}`),
+			error: Symbol.for(`${NAMESPACE}/error@${VERSION}`),
+		}
+
+		/**
+		 * Brand versions that have already been reported.
+		 */
+		const reportedVersions = new Set<string>()
+
+		/**
+		 * Report the met brand version once to {@link _Logger.OnIncompatibleCopy `Logger.OnIncompatibleCopy`}.
+		 * Nothing is reported until the handler is set.
+		 *
+		 * @param version - Brand version of the other copy.
+		 */
+		function report (version: string): void {
+			if (!_Logger.OnIncompatibleCopy || reportedVersions.has(version)) return
+			reportedVersions.add(version)
+
+			_Logger.OnIncompatibleCopy(
+				`[${NAMESPACE}] Met a result created by a copy of the library with brand version ${version}, `
+				+ `while this copy uses brand version ${VERSION}. `
+				+ `Results of incompatible copies are not recognized by \`IsOk\`, \`IsError\` and \`IsResult\`.`
+			)
+		}
+
+		/**
+		 * Check the compatibility of the value with the current copy of the library.
+		 * Incompatible results are reported once per brand version.
+		 *
+		 * @param value - Source value.
+		 * @param kind - Expected kind of the result.
+		 */
+		export function Check (value: unknown, kind: Kind): Compatibility {
+			const isObject = value !== null && typeof value === 'object'
+			if (!isObject) return null
+
+			const brand = (value as any)[KEYS[kind]]
+			if (brand === BRANDS[kind]) return 'compatible'
+			if (typeof brand !== 'symbol') return null
+
+			const version = Symbol.keyFor(brand)?.split('@').pop()
+			if (version === undefined) return null
+
+			report(version)
+			return 'incompatible'
+		}
+
+		// Registering the brand version of this copy to let the copies detect each other:
+		const registry: Set<number> = (globalThis as any)[Symbol.for(`${NAMESPACE}/registry`)] ??= new Set()
+		registry.add(VERSION)
+
+		/**
+		 * Get the brand versions of all copies of the library loaded in the process.
+		 */
+		export function Versions (): number[] {
+			return [...registry]
+		}
+	}
+
 	export namespace Result
 	{
 		export type SomeData = any | null
@@ -32,6 +133,23 @@ export namespace _Helpers
 			log?: boolean,
 		}
 
+		/**
+		 * Fields of the result, without its methods.
+		 *
+		 * @template S Status describing the result.
+		 * @template D Optional data.
+		 * @template T Optional tag.
+		 */
+		export type ResultShape<
+			S extends string,
+			D extends SomeData = null,
+			T extends SomeTag = null,
+		> = {
+			status: S
+			data: D
+			tag: T
+		}
+
 		/**
 		 * A utilitarian type for creating a new result type.
 		 *
@@ -44,12 +162,30 @@ export namespace _Helpers
 			D extends SomeData = null,
 			T extends SomeTag = null,
 		> =
-			| _Utils.Prettify<{
-				status: S
-				data: D
-				tag: T
+			| _Utils.Prettify<ResultShape<S, D, T> & {
+				/**
+				 * Unwrap the result with `yield*` inside `Flow.Gen`: the data of the success
+				 * result is returned, the error is yielded and terminates the generator.
+				 */
+				[Symbol.iterator] (): ResultIterator<S, D, T>
 			}>
 
+		/**
+		 * Iterator of the result used by `yield*`.
+		 *
+		 * @template S Status describing the result.
+		 * @template D Optional data.
+		 * @template T Optional tag.
+		 */
+		export type ResultIterator<
+			S extends string,
+			D extends SomeData = null,
+			T extends SomeTag = null,
+		> =
+			| S extends 'error'
+				? Generator<ResultConstructor<S, D, T>, never, unknown>
+				: Generator<never, D, unknown>
+
 		/**
 		 * A utilitarian type for creating a new result type.
 		 *
@@ -62,7 +198,7 @@ export namespace _Helpers
 			D extends SomeData = null,
 			const T extends SomeTag = null,
 		> (
-			sign: symbol,
+			kind: Brand.Kind,
 			params: { status: S } & Partial<ResultConstructor<S, D, T>>
 		):
 			ResultConstructor<S, D, T>
@@ -73,7 +209,30 @@ export namespace _Helpers
 			// tagIsFalsy:
 			params.tag ||= null as T
 
-			return { ...params, [sign]: sign } as ResultConstructor<S, D, T>
+			const result = { ...params, [Brand.KEYS[kind]]: Brand.BRANDS[kind] } as ResultConstructor<S, D, T>
+
+			// `toJSON` and the iterator are not enumerable so as not to get into spreads and `Object.keys`:
+			Object.defineProperty(result, 'toJSON', { value: toJSON })
+			Object.defineProperty(result, Symbol.iterator, { value: iterate })
+
+			return result
+		}
+
+		/**
+		 * Convert the result into the wire format of {@link _Serialize.Serialize `Result.Serialize`}
+		 * when it is passed to `JSON.stringify`.
+		 */
+		function toJSON (this: ResultConstructor<'ok', SomeData, SomeTag> | ResultConstructor<'error', SomeData, SomeTag>): _Serialize.Wire {
+			return _Serialize.ToWire(this)
+		}
+
+		/**
+		 * Unwrap the result inside the generator: the error is yielded to the runner,
+		 * which terminates the generator, the data of the success result is returned.
+		 */
+		function * iterate (this: ResultConstructor<'ok', SomeData, SomeTag> | ResultConstructor<'error', SomeData, SomeTag>): Generator<ResultConstructor<'error', SomeData, SomeTag>, SomeData, unknown> {
+			if (this.status === 'error') yield this
+			return this.data
 		}
 
 		/**
@@ -90,8 +249,21 @@ export namespace _Helpers
 			D extends SomeData = null,
 			T extends SomeTag = null,
 		> =
-			| D extends ResultConstructor<string, infer D1, infer T1>
+			| D extends ResultShape<string, infer D1, infer T1>
 				? ResultConstructor<S, D1, T extends null ? T1 : T>
 				: ResultConstructor<S, D, T>
 	}
+
+	export namespace Value
+	{
+		/**
+		 * Check if the value is a promise or any other thenable.
+		 *
+		 * @param value - Source value.
+		 */
+		export function IsPromiseLike (value: unknown): value is PromiseLike<unknown> {
+			const isObject = value !== null && (typeof value === 'object' || typeof value === 'function')
+			return isObject && typeof (value as any).then === 'function'
+		}
+	}
 }
\ No newline at end of file
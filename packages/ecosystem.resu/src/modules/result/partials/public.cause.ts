@@ -0,0 +1,95 @@
+import { _Error } from './public.error'
+import { _Helpers } from './private.helpers'
+import { _Utils } from '../../../types/utils'
+
+export namespace _Cause
+{
+	/**
+	 * Wrap the error (or any thrown value) into a new error result with its own tag
+	 * and context data. The original error is kept as the `cause` of the new one.
+	 *
+	 * @template C Original error or thrown value.
+	 * @template T Tag of the new error.
+	 * @template D Context data of the new error.
+	 */
+	export type Wrap<
+		C,
+		T extends _Helpers.Result.SomeTag,
+		D extends _Helpers.Result.SomeData = null,
+	> =
+		| _Utils.Prettify<_Error.Error<D, T> & { cause: C }>
+
+	/**
+	 * Wrap the error (or any thrown value) into a new error result with its own tag
+	 * and context data. The original error is kept as the `cause` of the new one.
+	 *
+	 * @param cause - Original error or thrown value.
+	 * @param tag - Tag of the new error.
+	 * @param context - Context data of the new error.
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = Result.Wrap(Result.ErrorFrom('ECONNREFUSED', 'DbError'), 'UserNotLoaded', { userId })
+	 * // -> Result.Error<{ userId: string }, 'UserNotLoaded'> caused by Result.Error<string, 'DbError'>
+	 * ```
+	 */
+	export function Wrap<
+		C,
+		const T extends _Helpers.Result.SomeTag,
+		D extends _Helpers.Result.SomeData = null,
+	> (
+		cause: C,
+		tag: T,
+		context?: D
+	):
+		Wrap<C, T, D>
+	{
+		return _Error.Error({ data: context, tag, cause }) as Wrap<C, T, D>
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Get the chain of causes of the result, from the direct cause to the root one.
+	 * The chain continues through error results and ends at the first thrown value.
+	 *
+	 * @param result - Any result.
+	 */
+	export function Causes (result: unknown): unknown[] {
+		const causes: unknown[] = []
+		const visited = new Set<unknown>([result])
+
+		let current = result
+		while (_Error.IsError(current) && 'cause' in current) {
+			current = current.cause
+
+			// Защита от циклических цепочек:
+			if (visited.has(current)) break
+			visited.add(current)
+
+			causes.push(current)
+		}
+		return causes
+	}
+
+	/**
+	 * Get the root cause of the result: the last element of the chain of causes
+	 * or the result itself if it has no cause.
+	 *
+	 * @param result - Any result.
+	 */
+	export function RootCause (result: unknown): unknown {
+		const causes = Causes(result)
+		return causes.length ? causes[causes.length - 1] : result
+	}
+
+	/**
+	 * Check whether the error result or any error in its chain of causes has the tag.
+	 *
+	 * @param result - Any result.
+	 * @param tag - Tag to look for.
+	 */
+	export function CausedBy (result: unknown, tag: _Helpers.Result.SomeTag): boolean {
+		return [result, ...Causes(result)].some((item) => _Error.IsError(item) && item.tag === tag)
+	}
+}
@@ -0,0 +1,192 @@
+import { _Ok } from './public.ok'
+import { _Error } from './public.error'
+import { _Helpers } from './private.helpers'
+
+export namespace _Combine
+{
+	/**
+	 * A result or a promise of a result.
+	 */
+	type MaybePromiseResult =
+		| _Ok.AnyOk
+		| _Error.AnyError
+		| PromiseLike<_Ok.AnyOk | _Error.AnyError>
+
+	/**
+	 * Tuple, array or record of results to be combined.
+	 */
+	export type Input =
+		| readonly MaybePromiseResult[]
+		| { readonly [key: string]: MaybePromiseResult }
+
+	/**
+	 * Union of all values of the input (with promises resolved).
+	 *
+	 * @template I Input tuple, array or record.
+	 */
+	type InputValues<I extends Input> =
+		| Awaited<I extends readonly any[] ? I[number] : I[keyof I]>
+
+	/**
+	 * Wraps the result in a `Promise` if at least one of the input values is a promise.
+	 *
+	 * @template I Input tuple, array or record.
+	 * @template R Combined result.
+	 */
+	type MaybePromise<I extends Input, R> =
+		| [Extract<I extends readonly any[] ? I[number] : I[keyof I], PromiseLike<any>>] extends [never]
+			? R
+			: Promise<R>
+
+	/**
+	 * Maps each input value to the data of its success result.
+	 *
+	 * @template I Input tuple, array or record.
+	 */
+	type UnwrapOkData<I extends Input> =
+		| { -readonly [K in keyof I]: _Ok.ExtractOk<Awaited<I[K]>>['data'] }
+
+	/**
+	 * Maps each input value to its resolved result.
+	 *
+	 * @template I Input tuple, array or record.
+	 */
+	type UnwrapResults<I extends Input> =
+		| { -readonly [K in keyof I]: Awaited<I[K]> }
+
+	/**
+	 * Maps each input value to its error result.
+	 *
+	 * @template I Input tuple, array or record.
+	 */
+	type UnwrapErrors<I extends Input> =
+		| { -readonly [K in keyof I]: _Error.ExtractError<Awaited<I[K]>> }
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Resolve the input (synchronously or asynchronously) and pass the results,
+	 * in input order, to the combiner.
+	 *
+	 * @param input - Tuple, array or record of results.
+	 * @param combine - Combines the resolved results into a single result.
+	 */
+	function resolve (
+		input: Input,
+		combine: (results: _Helpers.Result.SomeData[], rebuild: (items: unknown[]) => unknown) => unknown
+	):
+		unknown
+	{
+		const isArray = Array.isArray(input)
+		const keys = Object.keys(input)
+		const values = keys.map((key) => (input as Record<string, MaybePromiseResult>)[key])
+
+		// Восстанавливаем исходную форму входных данных (кортеж/массив или объект):
+		const rebuild = (items: unknown[]) => isArray
+			? items
+			: Object.fromEntries(keys.map((key, i) => [key, items[i]]))
+
+		const hasPromise = values.some(_Helpers.Value.IsPromiseLike)
+		return hasPromise
+			? Promise.all(values).then((results) => combine(results, rebuild))
+			: combine(values, rebuild)
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Combine several results into one. Returns {@link _Ok.Ok `Result.Ok`} with a tuple,
+	 * array or record of the unwrapped data, or the first {@link _Error.Error `Result.Error`}
+	 * in input order.
+	 *
+	 * @template I Input tuple, array or record.
+	 */
+	export type All<I extends Input> =
+		| MaybePromise<I,
+			| _Ok.Ok<UnwrapOkData<I>>
+			| _Error.ExtractError<InputValues<I>>
+		>
+
+	/**
+	 * Combine several results into one. Returns {@link _Ok.Ok `Result.Ok`} with a tuple,
+	 * array or record of the unwrapped data, or the first {@link _Error.Error `Result.Error`}
+	 * in input order.
+	 *
+	 * If at least one of the input values is a promise, the combined result is a promise too.
+	 *
+	 * @param input - Tuple, array or record of results (or promises of results).
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = Result.All([Result.OkFrom(1), Result.OkFrom('a')])
+	 * // -> Result.Ok<[number, string]>
+	 *
+	 * const record = await Result.All({ user: loadUser(), orders: loadOrders() })
+	 * // -> Result.Ok<{ user: User, orders: Order[] }> | Result.Error<...>
+	 * ```
+	 */
+	export function All<const I extends Input> (input: I): All<I> {
+		return resolve(input, (results, rebuild) => {
+			const error = results.find(_Error.IsError)
+			if (error) return error
+
+			return _Ok.Ok({ data: rebuild(results.map((result) => result.data)) })
+		}) as All<I>
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Combine several results into one {@link _Ok.Ok `Result.Ok`} whose data is
+	 * a tuple, array or record of every result, regardless of its status.
+	 *
+	 * @template I Input tuple, array or record.
+	 */
+	export type AllSettled<I extends Input> =
+		| MaybePromise<I, _Ok.Ok<UnwrapResults<I>>>
+
+	/**
+	 * Combine several results into one {@link _Ok.Ok `Result.Ok`} whose data is
+	 * a tuple, array or record of every result, regardless of its status.
+	 *
+	 * If at least one of the input values is a promise, the combined result is a promise too.
+	 *
+	 * @param input - Tuple, array or record of results (or promises of results).
+	 */
+	export function AllSettled<const I extends Input> (input: I): AllSettled<I> {
+		return resolve(input, (results, rebuild) => {
+			return _Ok.Ok({ data: rebuild(results) })
+		}) as AllSettled<I>
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Returns the first {@link _Ok.Ok `Result.Ok`} in input order, or {@link _Error.Error `Result.Error`}
+	 * whose data is a tuple, array or record of every error if there are no successes.
+	 *
+	 * @template I Input tuple, array or record.
+	 */
+	export type Any<I extends Input> =
+		| MaybePromise<I,
+			| _Ok.ExtractOk<InputValues<I>>
+			| _Error.Error<UnwrapErrors<I>>
+		>
+
+	/**
+	 * Returns the first {@link _Ok.Ok `Result.Ok`} in input order, or {@link _Error.Error `Result.Error`}
+	 * whose data is a tuple, array or record of every error if there are no successes.
+	 *
+	 * If at least one of the input values is a promise, the combined result is a promise too.
+	 *
+	 * @param input - Tuple, array or record of results (or promises of results).
+	 */
+	export function Any<const I extends Input> (input: I): Any<I> {
+		return resolve(input, (results, rebuild) => {
+			const ok = results.find(_Ok.IsOk)
+			if (ok) return ok
+
+			return _Error.Error({ data: rebuild(results) })
+		}) as Any<I>
+	}
+}
@@ -0,0 +1,239 @@
+import { _Ok } from './public.ok'
+import { _Error } from './public.error'
+import { _Helpers } from './private.helpers'
+import { _Utils } from '../../../types/utils'
+
+export namespace _Define
+{
+	type Status = _Helpers.Brand.Kind
+
+	/**
+	 * Declaration of a catalog: tags mapped to functions computing the data of the result.
+	 */
+	export type Spec = {
+		readonly [tag: string]: (...args: any[]) => _Helpers.Result.SomeData
+	}
+
+	/**
+	 * Typed constructor of a catalog member.
+	 *
+	 * @template S Status of the created results.
+	 * @template A Arguments of the constructor.
+	 * @template D Data of the created results.
+	 * @template T Tag of the created results.
+	 */
+	export type Member<
+		S extends Status,
+		A extends any[],
+		D extends _Helpers.Result.SomeData,
+		T extends string,
+	> =
+		& ((...args: A) => MemberResult<S, D, T>)
+		& {
+			/**
+			 * Status of the created results.
+			 */
+			readonly status: S
+			/**
+			 * Tag of the created results.
+			 */
+			readonly tag: T
+			/**
+			 * Check if the value is a result created by this member (has the same status and tag).
+			 */
+			readonly Is: (value: unknown) => value is MemberResult<S, D, T>
+		}
+
+	/**
+	 * Result created by a catalog member.
+	 *
+	 * @template S Status of the result.
+	 * @template D Data of the result.
+	 * @template T Tag of the result.
+	 */
+	type MemberResult<
+		S extends Status,
+		D extends _Helpers.Result.SomeData,
+		T extends string,
+	> =
+		| S extends 'ok' ? _Ok.Ok<D, T> : _Error.Error<D, T>
+
+	/**
+	 * Any catalog created by {@link Define `Result.Define`}.
+	 */
+	export type Catalog = {
+		readonly [tag: string]: Member<Status, any[], any, string>
+	}
+
+	/**
+	 * Union of all results created by members of the catalog.
+	 *
+	 * @template C Catalog.
+	 */
+	export type Members<C extends Catalog> =
+		| ReturnType<C[keyof C]>
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Create a member of a catalog.
+	 *
+	 * @param status - Status of the created results.
+	 * @param tag - Tag of the created results.
+	 * @param fn - Computes the data of the result from the arguments of the constructor.
+	 */
+	function createMember (
+		status: Status,
+		tag: string,
+		fn: (...args: any[]) => _Helpers.Result.SomeData
+	):
+		Member<Status, any[], any, string>
+	{
+		const construct = status === 'ok' ? _Ok.Ok : _Error.Error
+		const check = status === 'ok' ? _Ok.IsOk : _Error.IsError
+
+		const member = (...args: any[]) => construct({ data: fn(...args), tag })
+		const Is = (value: unknown) => check(value) && value.tag === tag
+
+		return Object.assign(member, { status, tag, Is }) as Member<Status, any[], any, string>
+	}
+
+	/**
+	 * Create members of the catalog with the same status.
+	 *
+	 * @param status - Status of the created results.
+	 * @param spec - Declaration of the catalog.
+	 */
+	function createCatalog (status: Status, spec: Spec): Catalog {
+		return Object.fromEntries(
+			Object.entries(spec).map(([tag, fn]) => [tag, createMember(status, tag, fn)])
+		)
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Catalog of typed constructors created from the declaration.
+	 *
+	 * @template Sp Declaration of the catalog.
+	 * @template S Status of the created results.
+	 */
+	export type Define<
+		Sp extends Spec,
+		S extends Status = 'error',
+	> = {
+		readonly [T in keyof Sp & string]: Member<S, Parameters<Sp[T]>, ReturnType<Sp[T]>, T>
+	}
+
+	/**
+	 * Declare a catalog of tagged errors. Every key of the declaration becomes the tag
+	 * of a typed constructor, whose arguments are passed to the declared function to compute the data.
+	 *
+	 * Every constructor exposes its `tag` and `status` and an `Is` type guard.
+	 * The union of all results of the catalog is {@link Members `Result.Members<typeof Catalog>`}.
+	 *
+	 * @param spec - Declaration of the catalog.
+	 *
+	 * @example
+	 * ```typescript
+	 * const Errors = Result.Define({
+	 * 	NotFound: (id: string) => ({ id }),
+	 * 	Conflict: (id: string, version: number) => ({ id, version }),
+	 * })
+	 *
+	 * const result = Errors.NotFound('42')
+	 * // -> Result.Error<{ id: string }, 'NotFound'>
+	 *
+	 * Errors.NotFound.Is(result) // -> true
+	 *
+	 * type DomainError = Result.Members<typeof Errors>
+	 * // -> Result.Error<{ id: string }, 'NotFound'> | Result.Error<{ id: string, version: number }, 'Conflict'>
+	 * ```
+	 */
+	export function Define<const Sp extends Spec> (spec: Sp): Define<Sp> {
+		return createCatalog('error', spec) as Define<Sp>
+	}
+
+	export namespace Define
+	{
+		/**
+		 * Declare a catalog of tagged success results.
+		 * Works the same as {@link Define `Result.Define`}, but the constructors create `Result.Ok`.
+		 *
+		 * @param spec - Declaration of the catalog.
+		 *
+		 * @example
+		 * ```typescript
+		 * const Events = Result.Define.Ok({ Created: (id: string) => ({ id }) })
+		 * const result = Events.Created('42')
+		 * // -> Result.Ok<{ id: string }, 'Created'>
+		 * ```
+		 */
+		export function Ok<const Sp extends Spec> (spec: Sp): Define<Sp, 'ok'> {
+			return createCatalog('ok', spec) as Define<Sp, 'ok'>
+		}
+
+		// ---------------------------------------------------------------------
+
+		/**
+		 * Combination of several catalogs.
+		 *
+		 * @template Cs Catalogs.
+		 */
+		export type Merge<Cs extends readonly Catalog[]> =
+			| _Utils.Prettify<
+				Cs extends readonly [infer C extends Catalog, ...infer Rest extends Catalog[]]
+					? Omit<C, keyof Merge<Rest>> & Merge<Rest>
+					: {}
+			>
+
+		/**
+		 * Combine several catalogs into one. If catalogs share a tag, the member of the last one is used.
+		 *
+		 * @param catalogs - Catalogs to combine.
+		 *
+		 * @example
+		 * ```typescript
+		 * const AppResults = Result.Define.Merge(UserErrors, OrderErrors, Events)
+		 * ```
+		 */
+		export function Merge<const Cs extends readonly Catalog[]> (...catalogs: Cs): Merge<Cs> {
+			return Object.assign({}, ...catalogs) as Merge<Cs>
+		}
+
+		/**
+		 * Add new tagged errors to the catalog.
+		 *
+		 * @param catalog - Source catalog.
+		 * @param spec - Declaration of the new members.
+		 *
+		 * @example
+		 * ```typescript
+		 * const HttpErrors = Result.Define.Extend(Errors, { Unauthorized: () => null })
+		 * ```
+		 */
+		export function Extend<
+			C extends Catalog,
+			const Sp extends Spec,
+		> (
+			catalog: C,
+			spec: Sp
+		):
+			Merge<[C, Define<Sp>]>
+		{
+			return Merge(catalog, Define(spec)) as Merge<[C, Define<Sp>]>
+		}
+
+		// ---------------------------------------------------------------------
+
+		/**
+		 * Check if the value is a result created by any member of the catalog.
+		 *
+		 * @param catalog - Catalog.
+		 * @param value - Any value.
+		 */
+		export function Is<C extends Catalog> (catalog: C, value: unknown): value is Members<C> {
+			return Object.values(catalog).some((member) => member.Is(value))
+		}
+	}
+}
@@ -1,10 +1,12 @@
 import { _Ok } from '../partials/public.ok'
 import { _Logger } from '../../logger'
 import { _Helpers } from './private.helpers'
+import { _Cause } from './public.cause'
+import { _Utils } from '../../../types/utils'
 
 export namespace _Error
 {
-	export const ERROR_SYMBOL = Symbol()
+	export const ERROR_SYMBOL = _Helpers.Brand.KEYS.error
 
 	// ---------------------------------------------------------------------
 
@@ -18,7 +20,30 @@ export namespace _Error
 		D extends _Helpers.Result.SomeData = null,
 		T extends _Helpers.Result.SomeTag = null,
 	> =
-		| _Helpers.Result.ResultConstructor<'error', D, T>
+		| _Utils.Prettify<_Helpers.Result.ResultConstructor<'error', D, T> & {
+			/**
+			 * Optional cause of the error: another result or a thrown value.
+			 */
+			cause?: unknown
+		}>
+
+	/**
+	 * Params for `Result.Error` function.
+	 *
+	 * @template D Optional data.
+	 * @template T Optional tag.
+	 */
+	export type ErrorParams<
+		D extends _Helpers.Result.SomeData = null,
+		T extends _Helpers.Result.SomeTag = null,
+	> =
+		| _Helpers.Result.Params<D, T> & {
+			/**
+			 * Optional cause of the error: another result or a thrown value.
+			 * See {@link _Cause.Causes `Result.Causes`} to walk the chain of causes.
+			 */
+			cause?: unknown
+		}
 
 	/**
 	 * Create new result with error.
@@ -30,14 +55,14 @@ export namespace _Error
 		D extends _Helpers.Result.SomeData = null,
 		const T extends _Helpers.Result.SomeTag = null,
 	> (
-		params?: _Helpers.Result.Params<D, T>
+		params?: ErrorParams<D, T>
 	):
 		Error<D, T>
 	{
-		const result = _Helpers.Result.ResultConstructor(ERROR_SYMBOL, { status: 'error', ...params })
+		const result = _Helpers.Result.ResultConstructor('error', { status: 'error', ...params }) as Error<D, T>
 
 		const logAllowed = params?.log ?? _Logger.LogErrorResult
-		if (logAllowed && _Logger.Engine) _Logger.Engine!(result)
+		if (logAllowed && _Logger.Engine) _Logger.Engine!(result, { causes: _Cause.Causes(result) })
 
 		return result
 	}
@@ -58,11 +83,7 @@ export namespace _Error
 	 * @param value - Source value.
 	 */
 	export function IsError (value: unknown): value is AnyError {
-		const isObject = value !== null && typeof value === 'object'
-		if (!isObject) return false
-
-		const hasSymbolOkSymbol = (value as any)[ERROR_SYMBOL] === ERROR_SYMBOL
-		return hasSymbolOkSymbol
+		return _Helpers.Brand.Check(value, 'error') === 'compatible'
 	}
 
 	// ---------------------------------------------------------------------
@@ -70,7 +91,7 @@ export namespace _Error
 	/**
 	 * Create a new error result from the passed value. If the passed value
 	 * is already a result, then its `status` and `tag` will be overwritten
-	 * with new ones.
+	 * with new ones. The retagged error keeps the original one as its `cause`.
 	 *
 	 * @template value Source value.
 	 * @template tag Optional tag.
@@ -79,12 +100,15 @@ export namespace _Error
 		V extends _Helpers.Result.SomeData = null,
 		T extends _Helpers.Result.SomeTag = null,
 	> =
-		| _Helpers.Result.ResultFrom<'error', V, T>
+		| V extends _Helpers.Result.ResultShape<string, infer D, infer T1>
+			? Error<D, T extends null ? T1 : T>
+			: Error<V, T>
 
 	/**
 	 * Create a new error result from the passed value. If the passed value
 	 * is already a result, then its `status` and `tag` will be overwritten
-	 * with new ones.
+	 * with new ones. If an error result gets a new tag, the original error
+	 * becomes the `cause` of the new one.
 	 *
 	 * @param data - Source value.
 	 * @param tag - Optional tag.
@@ -99,7 +123,11 @@ export namespace _Error
 		ErrorFrom<D, T>
 	{
 		const isError = IsError(data)
-		if (isError) return Error({ ...data, tag: tag !== undefined ? tag : data.tag }) as ErrorFrom<D, T>
+		if (isError) {
+			// Сохраняем историю, если у ошибки меняется тег:
+			const isRetagged = tag !== undefined && tag !== data.tag
+			return Error({ ...data, ...(isRetagged ? { tag, cause: data } : {}) }) as ErrorFrom<D, T>
+		}
 
 		const IsOk = _Ok.IsOk(data)
 		if (IsOk) return Error({ data: data.data, tag: tag !== undefined ? tag : data.tag }) as ErrorFrom<D, T>
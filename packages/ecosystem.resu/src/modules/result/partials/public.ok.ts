@@ -4,7 +4,7 @@ import { _Helpers } from './private.helpers'
 
 export namespace _Ok
 {
-	export const OK_SYMBOL = Symbol()
+	export const OK_SYMBOL = _Helpers.Brand.KEYS.ok
 
 	// ---------------------------------------------------------------------
 
@@ -34,10 +34,10 @@ export namespace _Ok
 	):
 		Ok<D, T>
 	{
-		const result = _Helpers.Result.ResultConstructor(OK_SYMBOL, { status: 'ok', ...params })
+		const result = _Helpers.Result.ResultConstructor('ok', { status: 'ok', ...params })
 
 		const logAllowed = params?.log ?? _Logger.LogOkResult
-		if (logAllowed && _Logger.Engine) _Logger.Engine!(result)
+		if (logAllowed && _Logger.Engine) _Logger.Engine!(result, { causes: [] })
 
 		return result
 	}
@@ -58,11 +58,7 @@ export namespace _Ok
 	 * @param value - Source value.
 	 */
 	export function IsOk (value: unknown): value is AnyOk {
-		const isObject = value !== null && typeof value === 'object'
-		if (!isObject) return false
-
-		const hasSymbolOkSymbol = (value as any)[OK_SYMBOL] === OK_SYMBOL
-		return hasSymbolOkSymbol
+		return _Helpers.Brand.Check(value, 'ok') === 'compatible'
 	}
 
 	// ---------------------------------------------------------------------
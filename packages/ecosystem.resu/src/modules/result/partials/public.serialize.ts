@@ -0,0 +1,331 @@
+import { _Ok } from './public.ok'
+import { _Error } from './public.error'
+
+export namespace _Serialize
+{
+	/**
+	 * Version of the wire format. Increased only on incompatible changes of the {@link Wire} shape.
+	 */
+	export const WIRE_VERSION = 1
+
+	/**
+	 * Wire format of a serialized result:
+	 *
+	 * ```json
+	 * { "$resu": 1, "status": "ok", "tag": "UserLoaded", "data": { ... } }
+	 * ```
+	 *
+	 * - `$resu` — version of the wire format.
+	 * - `status` — `"ok"` or `"error"`.
+	 * - `tag` — tag of the result or `null`.
+	 * - `data` — JSON-safe data. Values handled by codecs are encoded as `{ "$codec": name, "value": ... }`,
+	 *   nested results are encoded in the same wire format.
+	 * - `cause` — cause of the error, encoded in the same way as `data`, so the whole chain of causes
+	 *   is kept. Present only if the error has a cause.
+	 */
+	export type Wire = {
+		$resu: typeof WIRE_VERSION
+		status: 'ok' | 'error'
+		tag: string | null
+		data: unknown
+		cause?: unknown
+	}
+
+	/**
+	 * Codec for values of `data` that are not JSON-safe.
+	 *
+	 * @template V Source value.
+	 * @template J JSON representation of the value.
+	 */
+	export type Codec<V = any, J = any> = {
+		/**
+		 * Unique codec name, written to the payload.
+		 */
+		name: string
+		/**
+		 * Check whether the codec can encode the value.
+		 */
+		test: (value: unknown) => boolean
+		/**
+		 * Convert the value into its JSON representation.
+		 * The returned value is encoded further, so it may contain other encodable values.
+		 */
+		encode: (value: V) => J
+		/**
+		 * Restore the value from its JSON representation.
+		 */
+		decode: (json: J) => V
+	}
+
+	/**
+	 * Built-in codecs.
+	 */
+	export const Codecs = {
+		Date: <Codec<Date, string>> {
+			name: 'Date',
+			test: (value) => value instanceof Date,
+			encode: (value) => value.toISOString(),
+			decode: (json) => new Date(json),
+		},
+		Map: <Codec<Map<unknown, unknown>, [unknown, unknown][]>> {
+			name: 'Map',
+			test: (value) => value instanceof Map,
+			encode: (value) => Array.from(value.entries()),
+			decode: (json) => new Map(json),
+		},
+		Error: <Codec<globalThis.Error, { name: string, message: string, stack?: string }>> {
+			name: 'Error',
+			test: (value) => value instanceof globalThis.Error,
+			encode: (value) => ({ name: value.name, message: value.message, stack: value.stack }),
+			decode: (json) => Object.assign(new globalThis.Error(json.message), json),
+		},
+		BigInt: <Codec<bigint, string>> {
+			name: 'BigInt',
+			test: (value) => typeof value === 'bigint',
+			encode: (value) => value.toString(),
+			decode: (json) => BigInt(json),
+		},
+	}
+
+	/**
+	 * Codecs used when `options.codecs` is not passed.
+	 */
+	export const DEFAULT_CODECS: Codec[] = Object.values(Codecs)
+
+	/**
+	 * Serialization options.
+	 */
+	export type Options = {
+		/**
+		 * Codecs for values of `data`. Replaces {@link DEFAULT_CODECS} when passed.
+		 */
+		codecs?: Codec[]
+		/**
+		 * Reject payloads that do not exactly match the {@link Wire} format
+		 * (wrong version, unknown fields, unknown codecs). Default `false`.
+		 */
+		strict?: boolean
+	}
+
+	// ---------------------------------------------------------------------
+
+	type DESERIALIZE_ERROR_NAME = typeof DESERIALIZE_ERROR_NAME
+	const DESERIALIZE_ERROR_NAME = 'DeserializeError'
+
+	/**
+	 * Error returned when the payload cannot be restored into a result.
+	 */
+	export type DeserializeError = _Error.Error<{ reason: string, payload: unknown }, DESERIALIZE_ERROR_NAME>
+
+	/**
+	 * Thrown internally to abort decoding, converted into {@link DeserializeError}.
+	 */
+	class MalformedPayload {
+		constructor (public reason: string, public payload: unknown) {}
+	}
+
+	const WIRE_KEYS = ['$resu', 'status', 'tag', 'data', 'cause']
+
+	/**
+	 * Check if the value is a plain object (not an array or an instance of a class).
+	 *
+	 * @param value - Source value.
+	 */
+	function isPlainObject (value: unknown): value is Record<string, unknown> {
+		if (value === null || typeof value !== 'object') return false
+		const proto = Object.getPrototypeOf(value)
+		return proto === Object.prototype || proto === null
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Recursively encode the value into a JSON-safe value.
+	 *
+	 * @param value - Source value.
+	 * @param codecs - Codecs for non JSON-safe values.
+	 */
+	function encode (value: unknown, codecs: Codec[]): unknown {
+		if (_Ok.IsOk(value) || _Error.IsError(value)) return ToWire(value, { codecs })
+
+		const codec = codecs.find((codec) => codec.test(value))
+		if (codec) return { $codec: codec.name, value: encode(codec.encode(value), codecs) }
+
+		if (Array.isArray(value)) return value.map((item) => encode(item, codecs))
+		if (isPlainObject(value)) return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, encode(item, codecs)])
+		)
+
+		return value
+	}
+
+	/**
+	 * Recursively decode the JSON-safe value.
+	 *
+	 * @param value - JSON-safe value.
+	 * @param options - Serialization options.
+	 */
+	function decode (value: unknown, options: Required<Options>): unknown {
+		// Результаты могли быть уже восстановлены через `Reviver`:
+		if (_Ok.IsOk(value) || _Error.IsError(value)) return value
+
+		if (Array.isArray(value)) return value.map((item) => decode(item, options))
+		if (!isPlainObject(value)) return value
+
+		if ('$resu' in value) return fromWire(value, options)
+
+		if ('$codec' in value) {
+			const codec = options.codecs.find((codec) => codec.name === value.$codec)
+			if (codec) return codec.decode(decode(value.value, options))
+			if (options.strict) throw new MalformedPayload(`Unknown codec "${value.$codec}"`, value)
+		}
+
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, decode(item, options)])
+		)
+	}
+
+	/**
+	 * Restore the result from the payload in the wire format.
+	 *
+	 * In non-strict mode, payloads without `$resu` (e.g. results passed through
+	 * `structuredClone`) and without `tag` are accepted too.
+	 *
+	 * @param payload - Payload in the wire format.
+	 * @param options - Serialization options.
+	 */
+	function fromWire (payload: unknown, options: Required<Options>): _Ok.AnyOk | _Error.AnyError {
+		if (!isPlainObject(payload)) throw new MalformedPayload('Payload is not an object', payload)
+
+		if (options.strict) {
+			if (payload.$resu !== WIRE_VERSION) throw new MalformedPayload(`Unsupported wire version "${payload.$resu}"`, payload)
+
+			const unknownKey = Object.keys(payload).find((key) => !WIRE_KEYS.includes(key))
+			if (unknownKey) throw new MalformedPayload(`Unknown field "${unknownKey}"`, payload)
+
+			if (!('data' in payload)) throw new MalformedPayload('Missing field "data"', payload)
+		}
+		else if ('$resu' in payload && payload.$resu !== WIRE_VERSION) {
+			throw new MalformedPayload(`Unsupported wire version "${payload.$resu}"`, payload)
+		}
+
+		const { status, tag = null } = payload
+		if (status !== 'ok' && status !== 'error') throw new MalformedPayload(`Invalid status "${status}"`, payload)
+		if (tag !== null && typeof tag !== 'string') throw new MalformedPayload('Invalid tag', payload)
+
+		const data = decode(payload.data, options)
+		if (status === 'ok') return _Ok.Ok({ data, tag, log: false })
+
+		// Причина восстанавливается только если она была сериализована:
+		const cause = 'cause' in payload ? { cause: decode(payload.cause, options) } : {}
+		return _Error.Error({ data, tag, log: false, ...cause })
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Convert the result into a JSON-safe object in the {@link Wire wire format}.
+	 * Used by `result.toJSON()`, so `JSON.stringify(result)` produces the same payload.
+	 *
+	 * @param result - Any result.
+	 * @param options - Serialization options.
+	 */
+	export function ToWire (
+		result: _Ok.AnyOk | _Error.AnyError,
+		options?: Pick<Options, 'codecs'>
+	):
+		Wire
+	{
+		const codecs = options?.codecs ?? DEFAULT_CODECS
+		const hasCause = 'cause' in result && result.cause !== undefined
+
+		return {
+			$resu: WIRE_VERSION,
+			status: result.status as Wire['status'],
+			tag: result.tag,
+			data: encode(result.data, codecs),
+			...(hasCause ? { cause: encode(result.cause, codecs) } : {}),
+		}
+	}
+
+	/**
+	 * Serialize the result into a JSON string in the {@link Wire wire format}.
+	 *
+	 * @param result - Any result.
+	 * @param options - Serialization options.
+	 *
+	 * @example
+	 * ```typescript
+	 * const json = Result.Serialize(Result.Ok({ data: new Date(0), tag: 'Created' }))
+	 * // -> '{"$resu":1,"status":"ok","tag":"Created","data":{"$codec":"Date","value":"1970-01-01T00:00:00.000Z"}}'
+	 * ```
+	 */
+	export function Serialize (
+		result: _Ok.AnyOk | _Error.AnyError,
+		options?: Pick<Options, 'codecs'>
+	):
+		string
+	{
+		return JSON.stringify(ToWire(result, options))
+	}
+
+	/**
+	 * Restore the result from a JSON string or from an already parsed payload
+	 * (e.g. received via `postMessage`). Restored results are not passed to the logger.
+	 *
+	 * If the payload cannot be restored, {@link DeserializeError `Result.Error<{ reason, payload }, 'DeserializeError'>`}
+	 * is returned.
+	 *
+	 * @template R Expected result.
+	 * @param input - JSON string or parsed payload.
+	 * @param options - Serialization options.
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = Result.Deserialize<Result.Ok<User> | Result.Error<string, 'NotFound'>>(body, { strict: true })
+	 * // -> Result.Ok<User> | Result.Error<string, 'NotFound'> | Result.Error<{ reason, payload }, 'DeserializeError'>
+	 * ```
+	 */
+	export function Deserialize<
+		R extends _Ok.AnyOk | _Error.AnyError = _Ok.AnyOk | _Error.AnyError
+	> (
+		input: unknown,
+		options?: Options
+	):
+		R | DeserializeError
+	{
+		const resolvedOptions = { codecs: DEFAULT_CODECS, strict: false, ...options }
+
+		try {
+			const payload = typeof input === 'string' ? JSON.parse(input) : input
+			return fromWire(payload, resolvedOptions) as R
+		}
+		catch (error) {
+			const { reason, payload } = error instanceof MalformedPayload
+				? error
+				: new MalformedPayload(error instanceof globalThis.Error ? error.message : String(error), input)
+
+			return <DeserializeError> _Error.Error({ data: { reason, payload }, tag: DESERIALIZE_ERROR_NAME })
+		}
+	}
+
+	/**
+	 * Create a reviver for `JSON.parse` that restores every result
+	 * in the {@link Wire wire format} found in the parsed JSON.
+	 * Payloads that cannot be restored are replaced with {@link DeserializeError}.
+	 *
+	 * @param options - Serialization options.
+	 *
+	 * @example
+	 * ```typescript
+	 * const body = JSON.parse(text, Result.Reviver())
+	 * // -> { user: Result.Ok<...>, orders: Result.Error<...> }
+	 * ```
+	 */
+	export function Reviver (options?: Options): (key: string, value: unknown) => unknown {
+		return (_, value) => {
+			const isWire = isPlainObject(value) && '$resu' in value
+			return isWire ? Deserialize(value, options) : value
+		}
+	}
+}
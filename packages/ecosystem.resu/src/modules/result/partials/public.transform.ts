@@ -0,0 +1,414 @@
+import { _Ok } from './public.ok'
+import { _Error } from './public.error'
+import { _Helpers } from './private.helpers'
+
+export namespace _Transform
+{
+	type SomeData = _Helpers.Result.SomeData
+	type SomeTag = _Helpers.Result.SomeTag
+	type AnyResult = _Ok.AnyOk | _Error.AnyError
+
+	/**
+	 * Apply the transformation to the result or to the promise of the result.
+	 *
+	 * @param result - Any result or a promise of it.
+	 * @param fn - Transformation.
+	 */
+	async function applyAsync (
+		result: AnyResult | PromiseLike<AnyResult>,
+		fn: (result: AnyResult) => unknown
+	):
+		Promise<unknown>
+	{
+		return fn(await result)
+	}
+
+	/**
+	 * Create a copy of the error result with new data, keeping its tag and cause.
+	 *
+	 * @param error - Source error result.
+	 * @param data - New data.
+	 */
+	function withData (error: _Error.AnyError, data: unknown): _Error.AnyError {
+		// Причину переносим, только если она была задана:
+		const cause = 'cause' in error ? { cause: error.cause } : {}
+		return _Error.Error({ data, tag: error.tag, ...cause })
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Replace the data of {@link _Ok.Ok `Result.Ok`}, keeping its tag.
+	 * Error results are returned as is.
+	 *
+	 * @template R Any results.
+	 * @template U New data.
+	 */
+	export type Map<R, U> =
+		| R extends { status: 'ok', tag: infer T extends SomeTag } ? _Ok.Ok<U, T> : R
+
+	/**
+	 * Replace the data of {@link _Ok.Ok `Result.Ok`}, keeping its tag.
+	 * Error results are returned as is.
+	 *
+	 * The point-free form can be passed directly to {@link _Pipe `Flow.Pipe`}.
+	 *
+	 * @param fn - Computes new data from the data of the success result.
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = Result.Map(Result.Ok({ data: 2, tag: 'Count' }), (count) => count * 2)
+	 * // -> Result.Ok<number, 'Count'>
+	 *
+	 * const piped = Flow.Pipe.Sync(Result.OkFrom(2))(Result.Map((count) => count * 2))()
+	 * ```
+	 */
+	export function Map<D extends SomeData, U extends SomeData, T extends SomeTag = SomeTag> (fn: (data: D) => U): (result: _Ok.Ok<D, T>) => _Ok.Ok<U, T>
+	export function Map<R extends AnyResult, U extends SomeData> (result: R, fn: (data: _Ok.ExtractOk<R>['data']) => U): Map<R, U>
+
+	// Signature implementation:
+	export function Map (...args: [Function] | [AnyResult, Function]): unknown {
+		const map = (fn: Function) => (result: AnyResult) => _Ok.IsOk(result)
+			? _Ok.Ok({ data: fn(result.data), tag: result.tag })
+			: result
+
+		return args.length === 1 ? map(args[0]) : map(args[1])(args[0])
+	}
+
+	export namespace Map
+	{
+		/**
+		 * Asynchronous form of {@link _Transform.Map `Result.Map`}.
+		 *
+		 * @param fn - Computes new data from the data of the success result.
+		 */
+		export function Async<D extends SomeData, U extends SomeData, T extends SomeTag = SomeTag> (fn: (data: D) => U | Promise<U>): (result: _Ok.Ok<D, T>) => Promise<_Ok.Ok<U, T>>
+		export function Async<R extends AnyResult, U extends SomeData> (result: R | Promise<R>, fn: (data: _Ok.ExtractOk<R>['data']) => U | Promise<U>): Promise<Map<R, U>>
+
+		// Signature implementation:
+		export function Async (...args: [Function] | [AnyResult | PromiseLike<AnyResult>, Function]): unknown {
+			const map = (fn: Function) => (result: AnyResult | PromiseLike<AnyResult>) => applyAsync(result, async (result) => _Ok.IsOk(result)
+				? _Ok.Ok({ data: await fn(result.data), tag: result.tag })
+				: result
+			)
+
+			return args.length === 1 ? map(args[0]) : map(args[1])(args[0])
+		}
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Replace the data of {@link _Error.Error `Result.Error`}, keeping its tag and cause.
+	 * Success results are returned as is.
+	 *
+	 * @template R Any results.
+	 * @template U New data.
+	 */
+	export type MapError<R, U> =
+		| R extends { status: 'error', tag: infer T extends SomeTag } ? _Error.Error<U, T> : R
+
+	/**
+	 * Replace the data of {@link _Error.Error `Result.Error`}, keeping its tag and cause.
+	 * Success results are returned as is.
+	 *
+	 * @param fn - Computes new data from the error result.
+	 */
+	export function MapError<E extends _Error.AnyError, U extends SomeData> (fn: (error: E) => U): <R extends _Ok.AnyOk | E>(result: R) => MapError<R, U>
+	export function MapError<R extends AnyResult, U extends SomeData> (result: R, fn: (error: _Error.ExtractError<R>) => U): MapError<R, U>
+
+	// Signature implementation:
+	export function MapError (...args: [Function] | [AnyResult, Function]): unknown {
+		const mapError = (fn: Function) => (result: AnyResult) => _Error.IsError(result)
+			? withData(result, fn(result))
+			: result
+
+		return args.length === 1 ? mapError(args[0]) : mapError(args[1])(args[0])
+	}
+
+	export namespace MapError
+	{
+		/**
+		 * Asynchronous form of {@link _Transform.MapError `Result.MapError`}.
+		 *
+		 * @param fn - Computes new data from the error result.
+		 */
+		export function Async<E extends _Error.AnyError, U extends SomeData> (fn: (error: E) => U | Promise<U>): <R extends _Ok.AnyOk | E>(result: R | Promise<R>) => Promise<MapError<R, U>>
+		export function Async<R extends AnyResult, U extends SomeData> (result: R | Promise<R>, fn: (error: _Error.ExtractError<R>) => U | Promise<U>): Promise<MapError<R, U>>
+
+		// Signature implementation:
+		export function Async (...args: [Function] | [AnyResult | PromiseLike<AnyResult>, Function]): unknown {
+			const mapError = (fn: Function) => (result: AnyResult | PromiseLike<AnyResult>) => applyAsync(result, async (result) => _Error.IsError(result)
+				? withData(result, await fn(result))
+				: result
+			)
+
+			return args.length === 1 ? mapError(args[0]) : mapError(args[1])(args[0])
+		}
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Replace {@link _Ok.Ok `Result.Ok`} with the result of the function.
+	 * Values other than results are wrapped in `Result.Ok`. Error results are returned as is.
+	 *
+	 * @template R Any results.
+	 * @template U Returned result or value.
+	 */
+	export type FlatMap<R, U> =
+		| R extends { status: 'ok' } ? _Ok.OkFromUnlessError<U> : R
+
+	/**
+	 * Replace {@link _Ok.Ok `Result.Ok`} with the result of the function.
+	 * Values other than results are wrapped in `Result.Ok`. Error results are returned as is.
+	 *
+	 * The point-free form can be passed directly to {@link _Pipe `Flow.Pipe`}.
+	 *
+	 * @param fn - Computes a new result from the data of the success result.
+	 */
+	export function FlatMap<D extends SomeData, U extends SomeData, T extends SomeTag = SomeTag> (fn: (data: D) => U): (result: _Ok.Ok<D, T>) => _Ok.OkFromUnlessError<U>
+	export function FlatMap<R extends AnyResult, U extends SomeData> (result: R, fn: (data: _Ok.ExtractOk<R>['data']) => U): FlatMap<R, U>
+
+	// Signature implementation:
+	export function FlatMap (...args: [Function] | [AnyResult, Function]): unknown {
+		const flatMap = (fn: Function) => (result: AnyResult) => _Ok.IsOk(result)
+			? _Ok.OkFromUnlessError(fn(result.data))
+			: result
+
+		return args.length === 1 ? flatMap(args[0]) : flatMap(args[1])(args[0])
+	}
+
+	export namespace FlatMap
+	{
+		/**
+		 * Asynchronous form of {@link _Transform.FlatMap `Result.FlatMap`}.
+		 *
+		 * @param fn - Computes a new result from the data of the success result.
+		 */
+		export function Async<D extends SomeData, U extends SomeData, T extends SomeTag = SomeTag> (fn: (data: D) => U | Promise<U>): (result: _Ok.Ok<D, T>) => Promise<_Ok.OkFromUnlessError<U>>
+		export function Async<R extends AnyResult, U extends SomeData> (result: R | Promise<R>, fn: (data: _Ok.ExtractOk<R>['data']) => U | Promise<U>): Promise<FlatMap<R, U>>
+
+		// Signature implementation:
+		export function Async (...args: [Function] | [AnyResult | PromiseLike<AnyResult>, Function]): unknown {
+			const flatMap = (fn: Function) => (result: AnyResult | PromiseLike<AnyResult>) => applyAsync(result, async (result) => _Ok.IsOk(result)
+				? _Ok.OkFromUnlessError(await fn(result.data))
+				: result
+			)
+
+			return args.length === 1 ? flatMap(args[0]) : flatMap(args[1])(args[0])
+		}
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Call the function with the data of {@link _Ok.Ok `Result.Ok`} and return the result as is.
+	 *
+	 * The point-free form can be passed directly to {@link _Pipe `Flow.Pipe`}.
+	 *
+	 * @param fn - Side effect.
+	 */
+	export function Tap<D extends SomeData, T extends SomeTag = SomeTag> (fn: (data: D) => unknown): (result: _Ok.Ok<D, T>) => _Ok.Ok<D, T>
+	export function Tap<R extends AnyResult> (result: R, fn: (data: _Ok.ExtractOk<R>['data']) => unknown): R
+
+	// Signature implementation:
+	export function Tap (...args: [Function] | [AnyResult, Function]): unknown {
+		const tap = (fn: Function) => (result: AnyResult) => {
+			if (_Ok.IsOk(result)) fn(result.data)
+			return result
+		}
+
+		return args.length === 1 ? tap(args[0]) : tap(args[1])(args[0])
+	}
+
+	export namespace Tap
+	{
+		/**
+		 * Asynchronous form of {@link _Transform.Tap `Result.Tap`}. Waits for the side effect.
+		 *
+		 * @param fn - Side effect.
+		 */
+		export function Async<D extends SomeData, T extends SomeTag = SomeTag> (fn: (data: D) => unknown): (result: _Ok.Ok<D, T>) => Promise<_Ok.Ok<D, T>>
+		export function Async<R extends AnyResult> (result: R | Promise<R>, fn: (data: _Ok.ExtractOk<R>['data']) => unknown): Promise<R>
+
+		// Signature implementation:
+		export function Async (...args: [Function] | [AnyResult | PromiseLike<AnyResult>, Function]): unknown {
+			const tap = (fn: Function) => (result: AnyResult | PromiseLike<AnyResult>) => applyAsync(result, async (result) => {
+				if (_Ok.IsOk(result)) await fn(result.data)
+				return result
+			})
+
+			return args.length === 1 ? tap(args[0]) : tap(args[1])(args[0])
+		}
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Call the function with {@link _Error.Error `Result.Error`} and return the result as is.
+	 *
+	 * @param fn - Side effect.
+	 */
+	export function TapError<E extends _Error.AnyError> (fn: (error: E) => unknown): <R extends _Ok.AnyOk | E>(result: R) => R
+	export function TapError<R extends AnyResult> (result: R, fn: (error: _Error.ExtractError<R>) => unknown): R
+
+	// Signature implementation:
+	export function TapError (...args: [Function] | [AnyResult, Function]): unknown {
+		const tapError = (fn: Function) => (result: AnyResult) => {
+			if (_Error.IsError(result)) fn(result)
+			return result
+		}
+
+		return args.length === 1 ? tapError(args[0]) : tapError(args[1])(args[0])
+	}
+
+	export namespace TapError
+	{
+		/**
+		 * Asynchronous form of {@link _Transform.TapError `Result.TapError`}. Waits for the side effect.
+		 *
+		 * @param fn - Side effect.
+		 */
+		export function Async<E extends _Error.AnyError> (fn: (error: E) => unknown): <R extends _Ok.AnyOk | E>(result: R | Promise<R>) => Promise<R>
+		export function Async<R extends AnyResult> (result: R | Promise<R>, fn: (error: _Error.ExtractError<R>) => unknown): Promise<R>
+
+		// Signature implementation:
+		export function Async (...args: [Function] | [AnyResult | PromiseLike<AnyResult>, Function]): unknown {
+			const tapError = (fn: Function) => (result: AnyResult | PromiseLike<AnyResult>) => applyAsync(result, async (result) => {
+				if (_Error.IsError(result)) await fn(result)
+				return result
+			})
+
+			return args.length === 1 ? tapError(args[0]) : tapError(args[1])(args[0])
+		}
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Replace {@link _Error.Error `Result.Error`} with the result of the function.
+	 * Values other than results are wrapped in `Result.Ok`. Success results are returned as is.
+	 *
+	 * @template R Any results.
+	 * @template U Returned result or value.
+	 */
+	export type OrElse<R, U> =
+		| R extends { status: 'error' } ? _Ok.OkFromUnlessError<U> : R
+
+	/**
+	 * Replace {@link _Error.Error `Result.Error`} with the result of the function.
+	 * Values other than results are wrapped in `Result.Ok`. Success results are returned as is.
+	 *
+	 * @param fn - Computes a new result from the error result.
+	 */
+	export function OrElse<E extends _Error.AnyError, U extends SomeData> (fn: (error: E) => U): <R extends _Ok.AnyOk | E>(result: R) => OrElse<R, U>
+	export function OrElse<R extends AnyResult, U extends SomeData> (result: R, fn: (error: _Error.ExtractError<R>) => U): OrElse<R, U>
+
+	// Signature implementation:
+	export function OrElse (...args: [Function] | [AnyResult, Function]): unknown {
+		const orElse = (fn: Function) => (result: AnyResult) => _Error.IsError(result)
+			? _Ok.OkFromUnlessError(fn(result))
+			: result
+
+		return args.length === 1 ? orElse(args[0]) : orElse(args[1])(args[0])
+	}
+
+	export namespace OrElse
+	{
+		/**
+		 * Asynchronous form of {@link _Transform.OrElse `Result.OrElse`}.
+		 *
+		 * @param fn - Computes a new result from the error result.
+		 */
+		export function Async<E extends _Error.AnyError, U extends SomeData> (fn: (error: E) => U | Promise<U>): <R extends _Ok.AnyOk | E>(result: R | Promise<R>) => Promise<OrElse<R, U>>
+		export function Async<R extends AnyResult, U extends SomeData> (result: R | Promise<R>, fn: (error: _Error.ExtractError<R>) => U | Promise<U>): Promise<OrElse<R, U>>
+
+		// Signature implementation:
+		export function Async (...args: [Function] | [AnyResult | PromiseLike<AnyResult>, Function]): unknown {
+			const orElse = (fn: Function) => (result: AnyResult | PromiseLike<AnyResult>) => applyAsync(result, async (result) => _Error.IsError(result)
+				? _Ok.OkFromUnlessError(await fn(result))
+				: result
+			)
+
+			return args.length === 1 ? orElse(args[0]) : orElse(args[1])(args[0])
+		}
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Replace {@link _Error.Error `Result.Error`} with an untagged `Result.Ok` with the data
+	 * returned by the function. Success results are returned as is.
+	 *
+	 * @template R Any results.
+	 * @template U Data of the recovered result.
+	 */
+	export type Recover<R, U> =
+		| R extends { status: 'error' } ? _Ok.Ok<U> : R
+
+	/**
+	 * Replace {@link _Error.Error `Result.Error`} with an untagged `Result.Ok` with the data
+	 * returned by the function. Success results are returned as is.
+	 *
+	 * @param fn - Computes the data of the recovered result from the error result.
+	 */
+	export function Recover<E extends _Error.AnyError, U extends SomeData> (fn: (error: E) => U): <R extends _Ok.AnyOk | E>(result: R) => Recover<R, U>
+	export function Recover<R extends AnyResult, U extends SomeData> (result: R, fn: (error: _Error.ExtractError<R>) => U): Recover<R, U>
+
+	// Signature implementation:
+	export function Recover (...args: [Function] | [AnyResult, Function]): unknown {
+		const recover = (fn: Function) => (result: AnyResult) => _Error.IsError(result)
+			? _Ok.Ok({ data: fn(result) })
+			: result
+
+		return args.length === 1 ? recover(args[0]) : recover(args[1])(args[0])
+	}
+
+	export namespace Recover
+	{
+		/**
+		 * Asynchronous form of {@link _Transform.Recover `Result.Recover`}.
+		 *
+		 * @param fn - Computes the data of the recovered result from the error result.
+		 */
+		export function Async<E extends _Error.AnyError, U extends SomeData> (fn: (error: E) => U | Promise<U>): <R extends _Ok.AnyOk | E>(result: R | Promise<R>) => Promise<Recover<R, U>>
+		export function Async<R extends AnyResult, U extends SomeData> (result: R | Promise<R>, fn: (error: _Error.ExtractError<R>) => U | Promise<U>): Promise<Recover<R, U>>
+
+		// Signature implementation:
+		export function Async (...args: [Function] | [AnyResult | PromiseLike<AnyResult>, Function]): unknown {
+			const recover = (fn: Function) => (result: AnyResult | PromiseLike<AnyResult>) => applyAsync(result, async (result) => _Error.IsError(result)
+				? _Ok.Ok({ data: await fn(result) })
+				: result
+			)
+
+			return args.length === 1 ? recover(args[0]) : recover(args[1])(args[0])
+		}
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Turn `Result.Ok` into `Result.Error` and vice versa, keeping the data and the tag.
+	 *
+	 * @template R Any results.
+	 */
+	export type Swap<R> =
+		| R extends { status: 'ok', data: infer D, tag: infer T extends SomeTag } ? _Error.Error<D, T>
+		: R extends { status: 'error', data: infer D, tag: infer T extends SomeTag } ? _Ok.Ok<D, T>
+		: never
+
+	/**
+	 * Turn `Result.Ok` into `Result.Error` and vice versa, keeping the data and the tag.
+	 * Can be passed directly to {@link _Pipe `Flow.Pipe`}.
+	 *
+	 * @param result - Any result.
+	 */
+	export function Swap<R extends AnyResult> (result: R): Swap<R> {
+		const swapped = _Ok.IsOk(result)
+			? _Error.Error({ data: result.data, tag: result.tag })
+			: _Ok.Ok({ data: result.data, tag: result.tag })
+
+		return swapped as Swap<R>
+	}
+}
@@ -0,0 +1,102 @@
+import { _Ok } from './public.ok'
+import { _Error } from './public.error'
+import { _Helpers } from './private.helpers'
+
+export namespace _Unwrap
+{
+	/**
+	 * Error thrown when a result is unwrapped at a boundary of the code (test assertions,
+	 * CLI entry points, callbacks that must throw). The original result is kept as `cause`,
+	 * so throwing is lossless: {@link _Try `Flow.Try`} returns the original result when
+	 * it catches this error.
+	 *
+	 * @template R Original result.
+	 */
+	export class ResultError<R extends _Ok.AnyOk | _Error.AnyError = _Ok.AnyOk | _Error.AnyError> extends globalThis.Error {
+		/**
+		 * Tag of the original result.
+		 */
+		code: R['tag']
+		/**
+		 * Original result.
+		 */
+		cause: R
+
+		constructor (result: R, message?: string) {
+			super(message ?? `Unexpected ${result.status} result${result.tag ? ` with tag "${result.tag}"` : ''}`)
+			this.name = result.tag ?? 'ResultError'
+			this.code = result.tag
+			this.cause = result
+		}
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Get the data of the success result or throw {@link ResultError} if the result is an error.
+	 *
+	 * @param result - Any result.
+	 */
+	export function Unwrap<R extends _Ok.AnyOk | _Error.AnyError> (result: R): _Ok.ExtractOk<R>['data'] {
+		if (_Ok.IsOk(result)) return result.data
+		throw new ResultError(result)
+	}
+
+	/**
+	 * Get the data of the success result or the fallback value if the result is an error.
+	 *
+	 * @param result - Any result.
+	 * @param fallback - Value returned for an error result.
+	 */
+	export function UnwrapOr<
+		R extends _Ok.AnyOk | _Error.AnyError,
+		F extends _Helpers.Result.SomeData,
+	> (
+		result: R,
+		fallback: F
+	):
+		_Ok.ExtractOk<R>['data'] | F
+	{
+		return _Ok.IsOk(result) ? result.data : fallback
+	}
+
+	/**
+	 * Get the data of the success result or compute a value from the error result.
+	 *
+	 * @param result - Any result.
+	 * @param fn - Computes the value returned for an error result.
+	 */
+	export function UnwrapOrElse<
+		R extends _Ok.AnyOk | _Error.AnyError,
+		F extends _Helpers.Result.SomeData,
+	> (
+		result: R,
+		fn: (error: _Error.ExtractError<R>) => F
+	):
+		_Ok.ExtractOk<R>['data'] | F
+	{
+		return _Ok.IsOk(result) ? result.data : fn(result as _Error.ExtractError<R>)
+	}
+
+	/**
+	 * Get the data of the success result or throw {@link ResultError} with
+	 * the passed message if the result is an error.
+	 *
+	 * @param result - Any result.
+	 * @param message - Message of the thrown error.
+	 */
+	export function Expect<R extends _Ok.AnyOk | _Error.AnyError> (result: R, message: string): _Ok.ExtractOk<R>['data'] {
+		if (_Ok.IsOk(result)) return result.data
+		throw new ResultError(result, message)
+	}
+
+	/**
+	 * Get the data of the error result or throw {@link ResultError} if the result is a success.
+	 *
+	 * @param result - Any result.
+	 */
+	export function UnwrapError<R extends _Ok.AnyOk | _Error.AnyError> (result: R): _Error.ExtractError<R>['data'] {
+		if (_Error.IsError(result)) return result.data
+		throw new ResultError(result)
+	}
+}
@@ -0,0 +1,133 @@
+import { _Ok } from './public.ok'
+import { _Error } from './public.error'
+import { _Helpers } from './private.helpers'
+import type { StandardSchemaV1 } from '../../../types/standard-schema'
+
+export namespace _Validate
+{
+	/**
+	 * Any validator implementing the {@link StandardSchemaV1 Standard Schema} interface.
+	 */
+	export type Schema<Input = unknown, Output = Input> = StandardSchemaV1<Input, Output>
+
+	/**
+	 * Validation issue with a normalised path.
+	 */
+	export type ValidationIssue = {
+		/**
+		 * Message of the validator.
+		 */
+		message: string
+		/**
+		 * Keys from the root of the value to the invalid part of it. Empty for the root itself.
+		 */
+		path: PropertyKey[]
+	}
+
+	type VALIDATION_ERROR_NAME = typeof VALIDATION_ERROR_NAME
+	const VALIDATION_ERROR_NAME = 'ValidationError'
+
+	/**
+	 * Error returned when the value does not match the schema.
+	 */
+	export type ValidationError = _Error.Error<ValidationIssue[], VALIDATION_ERROR_NAME>
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Convert the outcome of the schema into a result.
+	 *
+	 * @param outcome - Outcome of `schema['~standard'].validate`.
+	 */
+	function toResult (outcome: StandardSchemaV1.Result<unknown>): _Ok.AnyOk | ValidationError {
+		if (!outcome.issues) return _Ok.Ok({ data: outcome.value })
+
+		const issues = outcome.issues.map((issue) => ({
+			message: issue.message,
+			// Сегменты пути приводим к ключам:
+			path: (issue.path ?? []).map((segment) => typeof segment === 'object' ? segment.key : segment),
+		}))
+		return <ValidationError> _Error.Error({ data: issues, tag: VALIDATION_ERROR_NAME })
+	}
+
+	/**
+	 * Validate the value synchronously.
+	 *
+	 * @param schema - Standard Schema.
+	 * @param value - Any value.
+	 */
+	function validate (schema: Schema, value: unknown): _Ok.AnyOk | ValidationError {
+		const outcome = schema['~standard'].validate(value)
+		if (_Helpers.Value.IsPromiseLike(outcome)) {
+			throw new TypeError('Schema validation must be synchronous, use `Result.Validate.Async` instead')
+		}
+		return toResult(outcome)
+	}
+
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Result of the validation: untagged {@link _Ok.Ok `Result.Ok`} with the output of the schema
+	 * or {@link ValidationError `Result.Error<ValidationIssue[], 'ValidationError'>`}.
+	 *
+	 * @template S Standard Schema.
+	 */
+	export type Validate<S extends Schema> =
+		| _Ok.Ok<StandardSchemaV1.InferOutput<S>>
+		| ValidationError
+
+	/**
+	 * Validate the value with any validator implementing the Standard Schema interface.
+	 * Returns untagged {@link _Ok.Ok `Result.Ok`} with the output of the schema
+	 * or {@link ValidationError `Result.Error<ValidationIssue[], 'ValidationError'>`}.
+	 *
+	 * Called with the schema only, returns a transformer validating the data of the success result,
+	 * which can be passed directly to {@link _Pipe `Flow.Pipe`}. Error results are returned as is.
+	 *
+	 * Throws `TypeError` if the schema validates asynchronously, use {@link Validate.Async `Result.Validate.Async`} then.
+	 *
+	 * @param schema - Standard Schema.
+	 * @param value - Any value.
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = Result.Validate(z.object({ email: z.string().email() }), body)
+	 * // -> Result.Ok<{ email: string }> | Result.Error<ValidationIssue[], 'ValidationError'>
+	 *
+	 * const piped = Flow.Pipe.Sync(Result.OkFrom(body))(Result.Validate(UserSchema))(saveUser)()
+	 * ```
+	 */
+	export function Validate<S extends Schema> (schema: S): (result: _Ok.AnyOk) => Validate<S>
+	export function Validate<S extends Schema> (schema: S, value: unknown): Validate<S>
+
+	// Signature implementation:
+	export function Validate (...args: [Schema] | [Schema, unknown]): unknown {
+		const [schema] = args
+		if (args.length === 2) return validate(schema, args[1])
+
+		return (result: _Ok.AnyOk | _Error.AnyError) => _Ok.IsOk(result) ? validate(schema, result.data) : result
+	}
+
+	export namespace Validate
+	{
+		/**
+		 * Asynchronous form of {@link _Validate.Validate `Result.Validate`}.
+		 * Accepts both synchronous and asynchronous schemas.
+		 *
+		 * @param schema - Standard Schema.
+		 * @param value - Any value.
+		 */
+		export function Async<S extends Schema> (schema: S): (result: _Ok.AnyOk) => Promise<Validate<S>>
+		export function Async<S extends Schema> (schema: S, value: unknown): Promise<Validate<S>>
+
+		// Signature implementation:
+		export function Async (...args: [Schema] | [Schema, unknown]): unknown {
+			const [schema] = args
+			const validate = async (value: unknown) => toResult(await schema['~standard'].validate(value))
+
+			if (args.length === 2) return validate(args[1])
+
+			return async (result: _Ok.AnyOk | _Error.AnyError) => _Ok.IsOk(result) ? validate(result.data) : result
+		}
+	}
+}
@@ -0,0 +1,81 @@
+import { describe, test, expect } from 'bun:test'
+import { _Ok } from '../../src/modules/result/partials/public.ok'
+import { _Error } from '../../src/modules/result/partials/public.error'
+import { _Combine } from '../../src/modules/result/partials/public.combine'
+
+// CHECKLIST:
+// - [X] `All` combines tuples, arrays and records of successes into a single `Result.Ok`.
+// - [X] `All` returns the first `Result.Error` in input order.
+// - [X] `AllSettled` keeps every outcome.
+// - [X] `Any` returns the first `Result.Ok` in input order, or `Result.Error` with every error.
+// - [X] If at least one input is a promise, the combined result is a promise.
+
+describe('All, AllSettled and Any Functions', () => {
+	const okRes1    = _Ok.Ok({ data: 1, tag: 'One' })
+	const okRes2    = _Ok.Ok({ data: 'two' })
+	const errorRes1 = _Error.Error({ data: 1, tag: 'FirstError' })
+	const errorRes2 = _Error.Error({ data: 2, tag: 'SecondError' })
+
+	test('`All` combines tuples, arrays and records of successes into a single `Result.Ok`', () => {
+		const tupleRes = _Combine.All([okRes1, okRes2])
+		expect(_Ok.IsOk(tupleRes)).toBeTrue()
+		expect(tupleRes.tag).toBeNull()
+		expect(tupleRes.data).toEqual([1, 'two'])
+
+		const recordRes = _Combine.All({ one: okRes1, two: okRes2 })
+		expect(_Ok.IsOk(recordRes)).toBeTrue()
+		expect(recordRes.data).toEqual({ one: 1, two: 'two' })
+
+		const emptyRes = _Combine.All([])
+		expect(_Ok.IsOk(emptyRes)).toBeTrue()
+		expect(emptyRes.data).toEqual([])
+	})
+
+	test('`All` returns the first `Result.Error` in input order', () => {
+		expect(_Combine.All([okRes1, errorRes1, errorRes2])).toBe(errorRes1)
+		expect(_Combine.All({ one: okRes1, two: errorRes2, three: errorRes1 })).toBe(errorRes2)
+	})
+
+	test('`AllSettled` keeps every outcome', () => {
+		const tupleRes = _Combine.AllSettled([okRes1, errorRes1])
+		expect(_Ok.IsOk(tupleRes)).toBeTrue()
+		expect(tupleRes.data[0]).toBe(okRes1)
+		expect(tupleRes.data[1]).toBe(errorRes1)
+
+		const recordRes = _Combine.AllSettled({ one: errorRes2, two: okRes2 })
+		expect(_Ok.IsOk(recordRes)).toBeTrue()
+		expect(recordRes.data.one).toBe(errorRes2)
+		expect(recordRes.data.two).toBe(okRes2)
+	})
+
+	test('`Any` returns the first `Result.Ok` in input order, or `Result.Error` with every error', () => {
+		expect(_Combine.Any([errorRes1, okRes2, okRes1])).toBe(okRes2)
+
+		const tupleRes = _Combine.Any([errorRes1, errorRes2])
+		expect(_Error.IsError(tupleRes)).toBeTrue()
+		expect(tupleRes.tag).toBeNull()
+		expect(tupleRes.data).toEqual([errorRes1, errorRes2])
+
+		const recordRes = _Combine.Any({ one: errorRes1, two: errorRes2 })
+		expect(_Error.IsError(recordRes)).toBeTrue()
+		expect(recordRes.data).toEqual({ one: errorRes1, two: errorRes2 })
+	})
+
+	test('If at least one input is a promise, the combined result is a promise', async () => {
+		const allRes = _Combine.All([okRes1, Promise.resolve(okRes2)])
+		expect(allRes).toBeInstanceOf(Promise)
+		expect((await allRes).data).toEqual([1, 'two'])
+
+		const allErrorRes = _Combine.All({ one: Promise.resolve(okRes1), two: Promise.resolve(errorRes1) })
+		expect(allErrorRes).toBeInstanceOf(Promise)
+		expect(await allErrorRes).toBe(errorRes1)
+
+		const settledRes = _Combine.AllSettled([Promise.resolve(errorRes1)])
+		expect(settledRes).toBeInstanceOf(Promise)
+		expect((await settledRes).data[0]).toBe(errorRes1)
+
+		const anyRes = _Combine.Any([Promise.resolve(errorRes1), okRes1])
+		expect(anyRes).toBeInstanceOf(Promise)
+		expect(await anyRes).toBe(okRes1)
+	})
+})
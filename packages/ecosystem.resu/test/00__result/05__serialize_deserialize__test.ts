@@ -0,0 +1,125 @@
+import { describe, test, expect } from 'bun:test'
+import { _Ok } from '../../src/modules/result/partials/public.ok'
+import { _Error } from '../../src/modules/result/partials/public.error'
+import { _Serialize } from '../../src/modules/result/partials/public.serialize'
+
+// CHECKLIST:
+// - [X] `JSON.stringify` of a result produces the versioned wire format.
+// - [X] `Deserialize` restores results from JSON strings and parsed payloads.
+// - [X] Built-in codecs restore `Date`, `Map`, `Error` and `BigInt`, custom codecs can be passed.
+// - [X] Nested results are serialized and restored.
+// - [X] `Reviver` restores results anywhere in the parsed JSON.
+// - [X] Non-strict mode accepts results passed through `structuredClone`.
+// - [X] Strict mode rejects malformed payloads with `Result.Error<..., 'DeserializeError'>`.
+
+describe('Serialize and Deserialize Functions', () => {
+	test('`JSON.stringify` of a result produces the versioned wire format', () => {
+		const res = _Ok.Ok({ data: { id: 1 }, tag: 'UserLoaded' })
+		expect(JSON.parse(JSON.stringify(res))).toEqual({ $resu: 1, status: 'ok', tag: 'UserLoaded', data: { id: 1 } })
+		expect(_Serialize.Serialize(res)).toBe(JSON.stringify(res))
+		expect(Object.keys(res)).not.toContain('toJSON')
+	})
+
+	test('`Deserialize` restores results from JSON strings and parsed payloads', () => {
+		const cases = [
+			_Ok.Ok({ data: 'value', tag: 'SomeOk' }),
+			_Error.Error({ data: [1, 2], tag: 'SomeError' }),
+			_Error.Error(),
+		]
+		cases.forEach((res) => {
+			const fromString = _Serialize.Deserialize(_Serialize.Serialize(res))
+			const fromPayload = _Serialize.Deserialize(_Serialize.ToWire(res))
+			;[fromString, fromPayload].forEach((restored) => {
+				expect(_Ok.IsOk(restored)).toBe(_Ok.IsOk(res))
+				expect(_Error.IsError(restored)).toBe(_Error.IsError(res))
+				expect(restored.tag).toBe(res.tag)
+				expect(restored.data).toEqual(res.data)
+			})
+		})
+	})
+
+	test('Built-in codecs restore `Date`, `Map`, `Error` and `BigInt`, custom codecs can be passed', () => {
+		const data = {
+			date: new Date(0),
+			map: new Map([['key', new Date(1)]]),
+			error: new TypeError('Failure'),
+			big: 10n ** 20n,
+		}
+		const restored = _Serialize.Deserialize(_Serialize.Serialize(_Ok.Ok({ data })))
+		expect(_Ok.IsOk(restored)).toBeTrue()
+		expect(restored.data.date).toEqual(data.date)
+		expect(restored.data.map).toBeInstanceOf(Map)
+		expect(restored.data.map.get('key')).toEqual(new Date(1))
+		expect(restored.data.error).toBeInstanceOf(Error)
+		expect(restored.data.error.name).toBe('TypeError')
+		expect(restored.data.error.message).toBe('Failure')
+		expect(restored.data.big).toBe(data.big)
+
+		class Point { constructor (public x: number, public y: number) {} }
+		const PointCodec: _Serialize.Codec<Point, [number, number]> = {
+			name: 'Point',
+			test: (value) => value instanceof Point,
+			encode: (value) => [value.x, value.y],
+			decode: ([x, y]) => new Point(x, y),
+		}
+		const codecs = [..._Serialize.DEFAULT_CODECS, PointCodec]
+		const json = _Serialize.Serialize(_Ok.Ok({ data: new Point(1, 2) }), { codecs })
+		const restoredPoint = _Serialize.Deserialize(json, { codecs })
+		expect(restoredPoint.data).toBeInstanceOf(Point)
+		expect(restoredPoint.data).toEqual(new Point(1, 2))
+	})
+
+	test('Nested results are serialized and restored', () => {
+		const inner = _Error.Error({ data: new Date(0), tag: 'Inner' })
+		const restored = _Serialize.Deserialize(JSON.stringify(_Ok.Ok({ data: { inner } })))
+		expect(_Ok.IsOk(restored)).toBeTrue()
+		expect(_Error.IsError(restored.data.inner)).toBeTrue()
+		expect(restored.data.inner.tag).toBe('Inner')
+		expect(restored.data.inner.data).toEqual(new Date(0))
+	})
+
+	test('`Reviver` restores results anywhere in the parsed JSON', () => {
+		const body = JSON.stringify({
+			user: _Ok.Ok({ data: { createdAt: new Date(0) }, tag: 'UserLoaded' }),
+			orders: [_Error.Error({ data: _Ok.Ok({ data: 1 }), tag: 'NotFound' })],
+		})
+		const parsed = JSON.parse(body, _Serialize.Reviver())
+		expect(_Ok.IsOk(parsed.user)).toBeTrue()
+		expect(parsed.user.data.createdAt).toEqual(new Date(0))
+		expect(_Error.IsError(parsed.orders[0])).toBeTrue()
+		expect(_Ok.IsOk(parsed.orders[0].data)).toBeTrue()
+		expect(parsed.orders[0].data.data).toBe(1)
+	})
+
+	test('Non-strict mode accepts results passed through `structuredClone`', () => {
+		const cloned = structuredClone(_Error.Error({ data: new Date(0), tag: 'Cloned' }))
+		expect(_Error.IsError(cloned)).toBeFalse()
+
+		const restored = _Serialize.Deserialize(cloned)
+		expect(_Error.IsError(restored)).toBeTrue()
+		expect(restored.tag).toBe('Cloned')
+		expect(restored.data).toEqual(new Date(0))
+
+		const strictRestored = _Serialize.Deserialize(cloned, { strict: true })
+		expect(strictRestored.tag).toBe('DeserializeError')
+	})
+
+	test('Strict mode rejects malformed payloads with `Result.Error<..., \'DeserializeError\'>`', () => {
+		const malformed = [
+			'{ invalid json',
+			42,
+			{ $resu: 2, status: 'ok', tag: null, data: null },
+			{ $resu: 1, status: 'unknown', tag: null, data: null },
+			{ $resu: 1, status: 'ok', tag: 1, data: null },
+			{ $resu: 1, status: 'ok', tag: null },
+			{ $resu: 1, status: 'ok', tag: null, data: null, extra: true },
+			{ $resu: 1, status: 'ok', tag: null, data: { $codec: 'Unknown', value: 1 } },
+		]
+		malformed.forEach((payload) => {
+			const res = _Serialize.Deserialize(payload, { strict: true })
+			expect(_Error.IsError(res)).toBeTrue()
+			expect(res.tag).toBe('DeserializeError')
+			expect(res.data.reason).toBeString()
+		})
+	})
+})
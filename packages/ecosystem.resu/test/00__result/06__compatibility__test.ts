@@ -0,0 +1,67 @@
+import { describe, test, expect, spyOn } from 'bun:test'
+import { _Ok } from '../../src/modules/result/partials/public.ok'
+import { _Error } from '../../src/modules/result/partials/public.error'
+import { _Result } from '../../src/modules/result'
+import { _Logger } from '../../src/modules/logger'
+
+// CHECKLIST:
+// - [X] Results are branded with keys from the global symbol registry.
+// - [X] Results created by another copy with the same brand version are recognized.
+// - [X] Results created by a copy with another brand version are not recognized and are reported once.
+// - [X] Nothing is written to the console, the loaded brand versions are available on demand.
+
+describe('Compatibility of results between copies of the library', () => {
+	const createForeignResult = (status: 'ok' | 'error', version: number) => ({
+		status,
+		data: null,
+		tag: null,
+		[Symbol.for(`@wambata/resu/${status}`)]: Symbol.for(`@wambata/resu/${status}@${version}`),
+	})
+
+	test('Results are branded with keys from the global symbol registry', () => {
+		expect(_Ok.OK_SYMBOL).toBe(Symbol.for('@wambata/resu/ok'))
+		expect(_Error.ERROR_SYMBOL).toBe(Symbol.for('@wambata/resu/error'))
+		expect(_Result.Compatibility(_Ok.Ok())).toBe('compatible')
+		expect(_Result.Compatibility(_Error.Error())).toBe('compatible')
+		expect(_Result.Compatibility({ status: 'ok' })).toBeNull()
+		expect(_Result.Compatibility(null)).toBeNull()
+	})
+
+	test('Results created by another copy with the same brand version are recognized', () => {
+		const okRes = createForeignResult('ok', 1)
+		expect(_Ok.IsOk(okRes)).toBeTrue()
+		expect(_Result.IsResult(okRes)).toBeTrue()
+
+		const errorRes = createForeignResult('error', 1)
+		expect(_Error.IsError(errorRes)).toBeTrue()
+		expect(_Result.IsResult(errorRes)).toBeTrue()
+	})
+
+	test('Results created by a copy with another brand version are not recognized and are reported once', () => {
+		const messages: string[] = []
+		_Logger.OnIncompatibleCopy = (message) => messages.push(message)
+
+		const okRes = createForeignResult('ok', 2)
+		const errorRes = createForeignResult('error', 2)
+		expect(_Ok.IsOk(okRes)).toBeFalse()
+		expect(_Error.IsError(errorRes)).toBeFalse()
+		expect(_Result.IsResult(okRes)).toBeFalse()
+		expect(_Result.Compatibility(okRes)).toBe('incompatible')
+		expect(_Result.Compatibility(errorRes)).toBe('incompatible')
+
+		_Logger.OnIncompatibleCopy = null
+
+		expect(messages).toHaveLength(1)
+		expect(messages[0]).toContain('brand version 2')
+	})
+
+	test('Nothing is written to the console, the loaded brand versions are available on demand', () => {
+		const warn = spyOn(console, 'warn').mockImplementation(() => {})
+
+		expect(_Result.Compatibility(createForeignResult('ok', 3))).toBe('incompatible')
+		expect(warn).not.toHaveBeenCalled()
+		warn.mockRestore()
+
+		expect(_Result.Compatibility.Versions()).toEqual([1])
+	})
+})
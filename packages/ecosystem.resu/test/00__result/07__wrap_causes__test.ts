@@ -0,0 +1,102 @@
+import { describe, test, expect } from 'bun:test'
+import { _Ok } from '../../src/modules/result/partials/public.ok'
+import { _Error } from '../../src/modules/result/partials/public.error'
+import { _Cause } from '../../src/modules/result/partials/public.cause'
+import { _Serialize } from '../../src/modules/result/partials/public.serialize'
+import { _Logger } from '../../src/modules/logger'
+
+// CHECKLIST:
+// - [X] `Result.Error` optionally carries a `cause`.
+// - [X] `Wrap` adds a layer with its own tag and context without discarding the original error.
+// - [X] `ErrorFrom` keeps the original error as the `cause` when the tag is changed.
+// - [X] `Causes`, `RootCause` and `CausedBy` walk the chain of causes.
+// - [X] `Logger.Engine` receives the full chain of causes.
+// - [X] The chain of causes survives a serialize/deserialize round trip.
+
+describe('Wrap, Causes, RootCause and CausedBy Functions', () => {
+	const thrown = new Error('ECONNREFUSED')
+	const rootRes = _Error.Error({ data: 'Connection refused', tag: 'DbError', cause: thrown })
+	const wrappedRes = _Cause.Wrap(rootRes, 'UserNotLoaded', { userId: 1 })
+	const outerRes = _Cause.Wrap(wrappedRes, 'RequestFailed')
+
+	test('`Result.Error` optionally carries a `cause`', () => {
+		expect(rootRes.cause).toBe(thrown)
+		expect('cause' in _Error.Error({ tag: 'NoCause' })).toBeFalse()
+	})
+
+	test('`Wrap` adds a layer with its own tag and context without discarding the original error', () => {
+		expect(_Error.IsError(wrappedRes)).toBeTrue()
+		expect(wrappedRes.tag).toBe('UserNotLoaded')
+		expect(wrappedRes.data).toEqual({ userId: 1 })
+		expect(wrappedRes.cause).toBe(rootRes)
+
+		expect(outerRes.tag).toBe('RequestFailed')
+		expect(outerRes.data).toBeNull()
+		expect(outerRes.cause).toBe(wrappedRes)
+	})
+
+	test('`ErrorFrom` keeps the original error as the `cause` when the tag is changed', () => {
+		const retaggedRes = _Error.ErrorFrom(rootRes, 'Retagged')
+		expect(retaggedRes.tag).toBe('Retagged')
+		expect(retaggedRes.data).toBe(rootRes.data)
+		expect(retaggedRes.cause).toBe(rootRes)
+
+		const sameTagRes = _Error.ErrorFrom(rootRes, 'DbError')
+		expect(sameTagRes.cause).toBe(thrown)
+
+		const fromOkRes = _Error.ErrorFrom(_Ok.Ok({ tag: 'SomeOk' }), 'Retagged')
+		expect('cause' in fromOkRes).toBeFalse()
+	})
+
+	test('`Causes`, `RootCause` and `CausedBy` walk the chain of causes', () => {
+		expect(_Cause.Causes(outerRes)).toEqual([wrappedRes, rootRes, thrown])
+		expect(_Cause.Causes(rootRes)).toEqual([thrown])
+		expect(_Cause.Causes(_Error.Error())).toEqual([])
+		expect(_Cause.Causes(_Ok.Ok())).toEqual([])
+
+		expect(_Cause.RootCause(outerRes)).toBe(thrown)
+		expect(_Cause.RootCause(wrappedRes)).toBe(thrown)
+		const errorRes = _Error.Error()
+		expect(_Cause.RootCause(errorRes)).toBe(errorRes)
+
+		expect(_Cause.CausedBy(outerRes, 'RequestFailed')).toBeTrue()
+		expect(_Cause.CausedBy(outerRes, 'DbError')).toBeTrue()
+		expect(_Cause.CausedBy(wrappedRes, 'RequestFailed')).toBeFalse()
+		expect(_Cause.CausedBy(_Ok.Ok({ tag: 'DbError' }), 'DbError')).toBeFalse()
+	})
+
+	test('Cyclic chains of causes do not hang', () => {
+		const cyclicRes = _Error.Error({ tag: 'Cyclic' }) as _Error.AnyError
+		cyclicRes.cause = cyclicRes
+		expect(_Cause.Causes(cyclicRes)).toEqual([])
+	})
+
+	test('`Logger.Engine` receives the full chain of causes', () => {
+		const calls: any[] = []
+		_Logger.Engine = async (...args) => calls.push(args)
+
+		const errorRes = _Cause.Wrap(rootRes, 'Logged')
+		_Error.Error({ tag: 'LoggedExplicitly', cause: errorRes, log: true })
+		_Ok.Ok({ log: true })
+		_Logger.Engine = null
+
+		expect(calls).toHaveLength(2)
+		expect(calls[0][1].causes).toEqual([errorRes, rootRes, thrown])
+		expect(calls[1][1].causes).toEqual([])
+	})
+
+	test('The chain of causes survives a serialize/deserialize round trip', () => {
+		const restoredRes = _Serialize.Deserialize(_Serialize.Serialize(outerRes), { strict: true })
+		if (!_Error.IsError(restoredRes)) throw new Error('Unexpected result')
+
+		expect(restoredRes.tag).toBe('RequestFailed')
+		expect(_Cause.Causes(restoredRes).map((cause) => _Error.IsError(cause) ? cause.tag : cause)).toEqual([
+			'UserNotLoaded',
+			'DbError',
+			expect.any(Error),
+		])
+		expect(_Cause.RootCause(restoredRes)).toMatchObject({ message: 'ECONNREFUSED' })
+
+		expect('cause' in JSON.parse(_Serialize.Serialize(_Error.Error({ tag: 'NoCause' })))).toBeFalse()
+	})
+})
@@ -0,0 +1,62 @@
+import { describe, test, expect } from 'bun:test'
+import { _Ok } from '../../src/modules/result/partials/public.ok'
+import { _Error } from '../../src/modules/result/partials/public.error'
+import { _Unwrap } from '../../src/modules/result/partials/public.unwrap'
+
+// CHECKLIST:
+// - [X] `Unwrap` and `Expect` return the data of `Result.Ok` and throw `ResultError` for `Result.Error`.
+// - [X] `UnwrapOr` and `UnwrapOrElse` return the data of `Result.Ok` or the fallback value.
+// - [X] `UnwrapError` returns the data of `Result.Error` and throws `ResultError` for `Result.Ok`.
+// - [X] `ResultError` carries the original result as `cause` and its tag as `name` and `code`.
+
+describe('Unwrap, UnwrapOr, UnwrapOrElse, Expect and UnwrapError Functions', () => {
+	const okRes    = _Ok.Ok({ data: 1, tag: 'SomeOk' })
+	const errorRes = _Error.Error({ data: 'Not found', tag: 'NotFound' })
+
+	const catchError = (fn: () => unknown): _Unwrap.ResultError => {
+		try { fn() }
+		catch (error) { return error as _Unwrap.ResultError }
+		throw new Error('Expected to throw')
+	}
+
+	test('`Unwrap` and `Expect` return the data of `Result.Ok` and throw `ResultError` for `Result.Error`', () => {
+		expect(_Unwrap.Unwrap(okRes)).toBe(1)
+		expect(_Unwrap.Expect(okRes, 'Must be ok')).toBe(1)
+
+		const unwrapError = catchError(() => _Unwrap.Unwrap(errorRes))
+		expect(unwrapError).toBeInstanceOf(_Unwrap.ResultError)
+		expect(unwrapError.message).toContain('NotFound')
+
+		const expectError = catchError(() => _Unwrap.Expect(errorRes, 'Must be ok'))
+		expect(expectError).toBeInstanceOf(_Unwrap.ResultError)
+		expect(expectError.message).toBe('Must be ok')
+	})
+
+	test('`UnwrapOr` and `UnwrapOrElse` return the data of `Result.Ok` or the fallback value', () => {
+		expect(_Unwrap.UnwrapOr(okRes, 0)).toBe(1)
+		expect(_Unwrap.UnwrapOr(errorRes, 0)).toBe(0)
+
+		expect(_Unwrap.UnwrapOrElse(okRes, () => 0)).toBe(1)
+		expect(_Unwrap.UnwrapOrElse(errorRes, (error) => error.data.length)).toBe(9)
+	})
+
+	test('`UnwrapError` returns the data of `Result.Error` and throws `ResultError` for `Result.Ok`', () => {
+		expect(_Unwrap.UnwrapError(errorRes)).toBe('Not found')
+
+		const error = catchError(() => _Unwrap.UnwrapError(okRes))
+		expect(error).toBeInstanceOf(_Unwrap.ResultError)
+		expect(error.cause).toBe(okRes)
+	})
+
+	test('`ResultError` carries the original result as `cause` and its tag as `name` and `code`', () => {
+		const error = catchError(() => _Unwrap.Unwrap(errorRes))
+		expect(error).toBeInstanceOf(Error)
+		expect(error.cause).toBe(errorRes)
+		expect(error.name).toBe('NotFound')
+		expect(error.code).toBe('NotFound')
+
+		const untaggedError = catchError(() => _Unwrap.Unwrap(_Error.Error()))
+		expect(untaggedError.name).toBe('ResultError')
+		expect(untaggedError.code).toBeNull()
+	})
+})
@@ -0,0 +1,115 @@
+import { describe, test, expect } from 'bun:test'
+import { _Ok } from '../../src/modules/result/partials/public.ok'
+import { _Error } from '../../src/modules/result/partials/public.error'
+import { _Transform } from '../../src/modules/result/partials/public.transform'
+import { _Pipe } from '../../src/modules/flow/partials/public.pipe'
+
+// CHECKLIST:
+// - [X] `Map` and `MapError` replace the data of matching results and keep their tags.
+// - [X] `FlatMap` and `OrElse` replace matching results with returned results or wrapped values.
+// - [X] `Tap` and `TapError` call side effects only for matching results and return results as is.
+// - [X] `Recover` turns `Result.Error` into untagged `Result.Ok`, `Swap` swaps statuses.
+// - [X] Async forms accept promises of results and async functions.
+// - [X] Point-free forms can be passed to `Flow.Pipe` as transformers.
+
+describe('Map, MapError, FlatMap, Tap, TapError, OrElse, Recover and Swap Functions', () => {
+	const okRes    = _Ok.Ok({ data: 2, tag: 'Count' })
+	const errorRes = _Error.Error({ data: 'Not found', tag: 'NotFound', cause: 'ENOENT' })
+
+	test('`Map` and `MapError` replace the data of matching results and keep their tags', () => {
+		const mapped = _Transform.Map(okRes, (count) => count * 2)
+		expect(mapped.data).toBe(4)
+		expect(mapped.tag).toBe('Count')
+		expect(_Transform.Map(errorRes, () => 0)).toBe(errorRes)
+
+		const mappedError = _Transform.MapError(errorRes, (error) => error.data.length)
+		expect(_Error.IsError(mappedError)).toBeTrue()
+		expect(mappedError.data).toBe(9)
+		expect(mappedError.tag).toBe('NotFound')
+		expect((mappedError as _Error.AnyError & { cause: unknown }).cause).toBe('ENOENT')
+		expect(_Transform.MapError(okRes, () => 0)).toBe(okRes)
+	})
+
+	test('`FlatMap` and `OrElse` replace matching results with returned results or wrapped values', () => {
+		const flatMapped = _Transform.FlatMap(okRes, (count) => _Error.ErrorFrom(count, 'TooSmall'))
+		expect(_Error.IsError(flatMapped)).toBeTrue()
+		expect(flatMapped.tag).toBe('TooSmall')
+		expect(_Transform.FlatMap(okRes, (count) => count + 1).data).toBe(3)
+		expect(_Transform.FlatMap(errorRes, () => 0)).toBe(errorRes)
+
+		const fallback = _Transform.OrElse(errorRes, () => _Ok.OkFrom('Default', 'Fallback'))
+		expect(_Ok.IsOk(fallback)).toBeTrue()
+		expect(fallback.tag).toBe('Fallback')
+		expect(_Transform.OrElse(errorRes, (error) => error.data).data).toBe('Not found')
+		expect(_Transform.OrElse(okRes, () => 0)).toBe(okRes)
+	})
+
+	test('`Tap` and `TapError` call side effects only for matching results and return results as is', () => {
+		const calls: unknown[] = []
+
+		expect(_Transform.Tap(okRes, (count) => calls.push(count))).toBe(okRes)
+		expect(_Transform.Tap(errorRes, (data) => calls.push(data))).toBe(errorRes)
+		expect(_Transform.TapError(errorRes, (error) => calls.push(error.tag))).toBe(errorRes)
+		expect(_Transform.TapError(okRes, (error) => calls.push(error))).toBe(okRes)
+
+		expect(calls).toEqual([2, 'NotFound'])
+	})
+
+	test('`Recover` turns `Result.Error` into untagged `Result.Ok`, `Swap` swaps statuses', () => {
+		const recovered = _Transform.Recover(errorRes, (error) => error.data.length)
+		expect(_Ok.IsOk(recovered)).toBeTrue()
+		expect(recovered.data).toBe(9)
+		expect(recovered.tag).toBeNull()
+		expect(_Transform.Recover(okRes, () => 0)).toBe(okRes)
+
+		const swappedOk = _Transform.Swap(okRes)
+		expect(_Error.IsError(swappedOk)).toBeTrue()
+		expect(swappedOk.data).toBe(2)
+		expect(swappedOk.tag).toBe('Count')
+
+		const swappedError = _Transform.Swap(errorRes)
+		expect(_Ok.IsOk(swappedError)).toBeTrue()
+		expect(swappedError.tag).toBe('NotFound')
+	})
+
+	test('Async forms accept promises of results and async functions', async () => {
+		const mapped = await _Transform.Map.Async(Promise.resolve(okRes), async (count) => count * 2)
+		expect(mapped.data).toBe(4)
+		expect(mapped.tag).toBe('Count')
+
+		const mappedError = await _Transform.MapError.Async(errorRes, async (error) => error.data.toUpperCase())
+		expect(mappedError.data).toBe('NOT FOUND')
+
+		const flatMapped = await _Transform.FlatMap.Async(okRes, async (count) => _Ok.OkFrom(count, 'Loaded'))
+		expect(flatMapped.tag).toBe('Loaded')
+
+		const calls: unknown[] = []
+		await _Transform.Tap.Async(okRes, async (count) => { calls.push(count) })
+		await _Transform.TapError.Async(Promise.resolve(errorRes), async (error) => { calls.push(error.tag) })
+		expect(calls).toEqual([2, 'NotFound'])
+
+		expect((await _Transform.OrElse.Async(errorRes, async () => 'Default')).data).toBe('Default')
+		expect((await _Transform.Recover.Async(errorRes, async () => 0)).data).toBe(0)
+	})
+
+	test('Point-free forms can be passed to `Flow.Pipe` as transformers', async () => {
+		const result = _Pipe.Sync(_Ok.OkFrom(2, 'Count'))
+			(_Transform.Map((count) => count * 2))
+			(_Transform.Tap((count) => expect(count).toBe(4)))
+			()
+
+		expect(result.data).toBe(4)
+		expect(result.tag).toBe('Count')
+
+		const asyncResult = await _Pipe.Async(_Ok.OkFrom(2, 'Count'))
+			(_Transform.Map.Async(async (count) => count * 2))
+			(_Transform.FlatMap((count) => count > 3 ? _Error.ErrorFrom(count, 'TooLarge') : count))
+			()
+
+		expect(_Error.IsError(asyncResult)).toBeTrue()
+		expect(asyncResult.tag).toBe('TooLarge')
+
+		const handled = [okRes, errorRes].map(_Transform.Recover(() => 0))
+		expect(handled.map((result) => result.data)).toEqual([2, 0])
+	})
+})
@@ -0,0 +1,78 @@
+import { describe, test, expect } from 'bun:test'
+import { _Ok } from '../../src/modules/result/partials/public.ok'
+import { _Error } from '../../src/modules/result/partials/public.error'
+import { _Define } from '../../src/modules/result/partials/public.define'
+import { _Match } from '../../src/modules/flow/partials/public.match'
+
+// CHECKLIST:
+// - [X] `Define` creates typed error constructors exposing `tag`, `status` and `Is`.
+// - [X] `Define.Ok` creates success constructors.
+// - [X] `Define.Merge` and `Define.Extend` compose catalogs.
+// - [X] `Define.Is` checks membership in the whole catalog.
+// - [X] `Flow.CatalogMatchMap` handlers match every member of the catalog.
+
+describe('Define Function', () => {
+	const Errors = _Define.Define({
+		NotFound: (id: string) => ({ id }),
+		Conflict: (id: string, version: number) => ({ id, version }),
+	})
+
+	const Events = _Define.Define.Ok({
+		Created: (id: string) => ({ id }),
+	})
+
+	test('`Define` creates typed error constructors exposing `tag`, `status` and `Is`', () => {
+		const notFound = Errors.NotFound('42')
+		expect(_Error.IsError(notFound)).toBeTrue()
+		expect(notFound.tag).toBe('NotFound')
+		expect(notFound.data).toEqual({ id: '42' })
+
+		expect(Errors.Conflict('42', 3).data).toEqual({ id: '42', version: 3 })
+
+		expect(Errors.NotFound.tag).toBe('NotFound')
+		expect(Errors.NotFound.status).toBe('error')
+		expect(Errors.NotFound.Is(notFound)).toBeTrue()
+		expect(Errors.Conflict.Is(notFound)).toBeFalse()
+		expect(Errors.NotFound.Is(_Ok.Ok({ data: { id: '42' }, tag: 'NotFound' }))).toBeFalse()
+		expect(Errors.NotFound.Is({ status: 'error', tag: 'NotFound' })).toBeFalse()
+	})
+
+	test('`Define.Ok` creates success constructors', () => {
+		const created = Events.Created('42')
+		expect(_Ok.IsOk(created)).toBeTrue()
+		expect(created.tag).toBe('Created')
+		expect(Events.Created.status).toBe('ok')
+		expect(Events.Created.Is(created)).toBeTrue()
+	})
+
+	test('`Define.Merge` and `Define.Extend` compose catalogs', () => {
+		const merged = _Define.Define.Merge(Errors, Events)
+		expect(Object.keys(merged)).toEqual(['NotFound', 'Conflict', 'Created'])
+		expect(merged.Created).toBe(Events.Created)
+
+		const extended = _Define.Define.Extend(Errors, { Unauthorized: () => null })
+		expect(extended.NotFound).toBe(Errors.NotFound)
+		expect(extended.Unauthorized().tag).toBe('Unauthorized')
+		expect(extended.Unauthorized().data).toBeNull()
+		expect('Unauthorized' in Errors).toBeFalse()
+	})
+
+	test('`Define.Is` checks membership in the whole catalog', () => {
+		expect(_Define.Define.Is(Errors, Errors.Conflict('42', 1))).toBeTrue()
+		expect(_Define.Define.Is(Errors, Events.Created('42'))).toBeFalse()
+		expect(_Define.Define.Is(Errors, _Error.ErrorFrom('Other', 'Other'))).toBeFalse()
+	})
+
+	test('`Flow.CatalogMatchMap` handlers match every member of the catalog', () => {
+		const Results = _Define.Define.Merge(Errors, Events)
+		const handlers = {
+			'error:NotFound': (error) => `missing ${error.data.id}`,
+			'error:Conflict': (error) => `conflict at ${error.data.version}`,
+			'ok:Created': (result) => `created ${result.data.id}`,
+		} satisfies _Match.CatalogMatchMap<typeof Results>
+
+		expect(_Match.Match(Errors.NotFound('1'), handlers).data).toBe('missing 1')
+		expect(_Match.Match(Errors.Conflict('1', 2), handlers).data).toBe('conflict at 2')
+		expect(_Match.Match(Events.Created('1'), handlers).data).toBe('created 1')
+	})
+})
@@ -0,0 +1,124 @@
+import { describe, test, expect } from 'bun:test'
+import { _Ok } from '../../src/modules/result/partials/public.ok'
+import { _Error } from '../../src/modules/result/partials/public.error'
+import { _Validate } from '../../src/modules/result/partials/public.validate'
+import { _Pipe } from '../../src/modules/flow/partials/public.pipe'
+import { _Function } from '../../src/modules/flow/partials/public.function'
+import type { StandardSchemaV1 } from '../../src/types/standard-schema'
+
+// CHECKLIST:
+// - [X] `Validate` returns `Result.Ok` with the output of the schema.
+// - [X] `Validate` returns `Result.Error<ValidationIssue[], 'ValidationError'>` with normalised paths.
+// - [X] `Validate` throws `TypeError` for asynchronous schemas, `Validate.Async` accepts them.
+// - [X] Point-free forms can be passed to `Flow.Pipe` as transformers.
+// - [X] `Flow.Function` validates the arguments by position before running.
+
+/**
+ * Minimal Standard Schema of a user (like the ones of Zod or Valibot).
+ */
+const UserSchema: StandardSchemaV1<unknown, { email: string, age: number }> = {
+	'~standard': {
+		version: 1,
+		vendor: 'test',
+		validate: (value) => {
+			const user = value as Record<string, unknown>
+			const issues: StandardSchemaV1.Issue[] = []
+
+			if (typeof user?.email !== 'string') issues.push({ message: 'Invalid email', path: ['email'] })
+			if (typeof user?.age !== 'string') issues.push({ message: 'Invalid age', path: [{ key: 'age' }] })
+
+			return issues.length
+				? { issues }
+				: { value: { email: user.email as string, age: Number(user.age) } }
+		},
+	},
+}
+
+/**
+ * Asynchronous Standard Schema of a non-empty string.
+ */
+const AsyncNameSchema: StandardSchemaV1<unknown, string> = {
+	'~standard': {
+		version: 1,
+		vendor: 'test',
+		validate: async (value) => typeof value === 'string' && value
+			? { value: value.trim() }
+			: { issues: [{ message: 'Name is required' }] },
+	},
+}
+
+/**
+ * Standard Schema converting any value into a string.
+ */
+const NameSchema: StandardSchemaV1<unknown, string> = {
+	'~standard': {
+		version: 1,
+		vendor: 'test',
+		validate: (value) => ({ value: String(value) }),
+	},
+}
+
+describe('Validate Function', () => {
+	test('`Validate` returns `Result.Ok` with the output of the schema', () => {
+		const result = _Validate.Validate(UserSchema, { email: 'a@b.c', age: '42' })
+		expect(_Ok.IsOk(result)).toBeTrue()
+		expect(result.data).toEqual({ email: 'a@b.c', age: 42 })
+		expect(result.tag).toBeNull()
+	})
+
+	test('`Validate` returns `Result.Error<ValidationIssue[], \'ValidationError\'>` with normalised paths', async () => {
+		const result = _Validate.Validate(UserSchema, { age: 42 })
+		expect(_Error.IsError(result)).toBeTrue()
+		expect(result.tag).toBe('ValidationError')
+		expect(result.data).toEqual([
+			{ message: 'Invalid email', path: ['email'] },
+			{ message: 'Invalid age', path: ['age'] },
+		])
+
+		const rootResult = await _Validate.Validate.Async(AsyncNameSchema, '')
+		expect(rootResult.data).toEqual([{ message: 'Name is required', path: [] }])
+	})
+
+	test('`Validate` throws `TypeError` for asynchronous schemas, `Validate.Async` accepts them', async () => {
+		expect(() => _Validate.Validate(AsyncNameSchema, 'Ann')).toThrow(TypeError)
+
+		const result = await _Validate.Validate.Async(AsyncNameSchema, ' Ann ')
+		expect(result.data).toBe('Ann')
+
+		const syncResult = await _Validate.Validate.Async(UserSchema, { email: 'a@b.c', age: '1' })
+		expect(_Ok.IsOk(syncResult)).toBeTrue()
+	})
+
+	test('Point-free forms can be passed to `Flow.Pipe` as transformers', async () => {
+		const result = _Pipe.Sync(_Ok.OkFrom({ email: 'a@b.c', age: '42' }))
+			(_Validate.Validate(UserSchema))
+			((user) => user.data.age + 1)
+			()
+		expect(result.data).toBe(43)
+
+		const invalid = _Pipe.Sync(_Ok.OkFrom({}))(_Validate.Validate(UserSchema))((user) => user.data.age)()
+		expect(invalid.tag).toBe('ValidationError')
+
+		const asyncResult = await _Pipe.Async(_Ok.OkFrom(' Ann '))(_Validate.Validate.Async(AsyncNameSchema))()
+		expect(asyncResult.data).toBe('Ann')
+	})
+
+	test('`Flow.Function` validates the arguments by position before running', async () => {
+		let calls = 0
+		const register = _Function.Sync((user, name) => {
+			calls++
+			return `${name} <${user.email}>`
+		}, { args: [UserSchema, NameSchema] })
+
+		expect(register({ email: 'a@b.c', age: '42' }, 'Ann').data).toBe('Ann <a@b.c>')
+
+		const invalid = register({ email: 'a@b.c' }, 'Ann')
+		expect(invalid.tag).toBe('ValidationError')
+		expect(invalid.data).toEqual([{ message: 'Invalid age', path: [0, 'age'] }])
+		expect(calls).toBe(1)
+
+		const greet = _Function.Async(async (name) => `Hello, ${name}`, { args: [AsyncNameSchema] })
+		expect((await greet(' Ann ')).data).toBe('Hello, Ann')
+		expect((await greet('')).tag).toBe('ValidationError')
+	})
+})
@@ -12,6 +12,7 @@ import { _Match } from '../../src/modules/flow/partials/public.match'
 // - [X] If the matcher does not find a match by `tag` or `status`, the result is returned as is.
 // - [X] Matcher handlers always wraps non-results in `Result.Ok`
 // - [X] Matcher handlers always returns results as they are.
+// - [X] The matcher checks for a match by `cause:tag` anywhere in the chain of causes of an error.
 
 describe('Match (Processing the result according to the pattern)', () => {
 	const okRes0    = _Ok.Ok()
@@ -126,4 +127,26 @@ describe('Match (Processing the result according to the pattern)', () => {
 		expect(_Error.IsError(res)).toBeTrue()
 		expect(res).toBe(res)
 	})
-})
\ No newline at end of file
+
+	test('The matcher checks for a match by `cause:tag` anywhere in the chain of causes of an error', () => {
+		const wrappedRes = _Result.Wrap(errorRes1, 'RequestFailed')
+
+		const res1 = _Match.Match(wrappedRes, {
+			'cause:NotFound': () => 'cause',
+			'error': () => 'error',
+		})
+		expect(res1.data).toBe('cause')
+
+		const res2 = _Match.Match(wrappedRes, {
+			'error:RequestFailed': () => 'exact',
+			'cause:NotFound': () => 'cause',
+		})
+		expect(res2.data).toBe('exact')
+
+		const res3 = _Match.Match(wrappedRes, {
+			'cause:Unknown': () => 'cause',
+			'error': () => 'error',
+		})
+		expect(res3.data).toBe('error')
+	})
+})
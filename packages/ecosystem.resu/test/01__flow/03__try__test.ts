@@ -1,6 +1,7 @@
 import { describe, test, expect } from 'bun:test'
 import { _Try } from '../../src/modules/flow/partials/public.try'
 import { _Result } from '../../src/modules/result'
+import { _Unwrap } from '../../src/modules/result/partials/public.unwrap'
 
 // - [X] `Try` correctly catches errors and wraps them in `Result.Error`
 // - [X] `Try` correctly handles the return cases of a custom `Result.Error` in `try` and `catch`
@@ -9,6 +10,10 @@ import { _Result } from '../../src/modules/result'
 // - [X] `Try->arg.catch` wraps an unsuccessful result in `Result.Error`
 // - [X] `Try->arg.catch' returns the result as it is.
 // - [X] `Try.Async` correctly handles `abort` if `signal` is passed
+// - [X] `Try` returns the original result of a thrown `ResultError` without calling `catch`
+// - [X] `Try.Async` returns `Timeout` if `timeout` expires and aborts the signal passed to `try`
+// - [X] `Try.Async` passes the signal to `try` and keeps the abort reason
+// - [X] `Try.Async` removes the `abort` listener when the operation is completed
 
 describe('Try (Error Interception)', () => {
 	const okRes = _Result.Ok({ data: 1, tag: 'SomeOk' })
@@ -160,4 +165,79 @@ describe('Try (Error Interception)', () => {
 		expect(res.data).toBeInstanceOf(_Try.AbortOperationError)
 		expect(res.tag).toBe('AbortOperation')
 	})
-})
\ No newline at end of file
+
+	test('`Try` returns the original result of a thrown `ResultError` without calling `catch`', async () => {
+		let catchCalls = 0
+		const catchFunc = () => (catchCalls += 1, errorRes)
+		const unwrappedErrorRes = _Result.Error({ data: 2, tag: 'Unwrapped' })
+
+		// The type of the thrown result is not known to `Try`, so it is compared as any result:
+		const syncRes = _Try.Sync({ try: () => _Unwrap.Unwrap(unwrappedErrorRes), catch: catchFunc })
+		expect(syncRes).toBe<_Result.Any>(unwrappedErrorRes)
+
+		const asyncRes = await _Try.Async({ try: async () => _Unwrap.Unwrap(unwrappedErrorRes), catch: catchFunc })
+		expect(asyncRes).toBe<_Result.Any>(unwrappedErrorRes)
+
+		expect(catchCalls).toBe(0)
+	})
+
+	test('`Try.Async` returns `Timeout` if `timeout` expires and aborts the signal passed to `try`', async () => {
+		let trySignal: AbortSignal | undefined
+
+		const res = await _Try.Async({
+			timeout: 10,
+			try: (signal) => new Promise<1>((res) => {
+				trySignal = signal
+				setTimeout(() => res(1), 1_000)
+			})
+		})
+
+		expect(_Result.IsError(res)).toBeTrue()
+		expect(res.data).toBeInstanceOf(_Try.TimeoutError)
+		expect(res.tag).toBe('Timeout')
+		expect(trySignal?.aborted).toBeTrue()
+		expect(trySignal?.reason).toBe(res.data)
+
+		const fastRes = await _Try.Async({ timeout: 1_000, try: async () => 1 })
+		expect(fastRes.data).toBe(1)
+	})
+
+	test('`Try.Async` passes the signal to `try` and keeps the abort reason', async () => {
+		const ctrl = new AbortController()
+		const reason = new Error('User left the page')
+		let trySignal: AbortSignal | undefined
+
+		setTimeout(() => ctrl.abort(reason), 10)
+		const res = await _Try.Async({
+			signal: ctrl.signal,
+			timeout: 1_000,
+			try: (signal) => new Promise<1>((res) => {
+				trySignal = signal
+				setTimeout(() => res(1), 1_000)
+			})
+		})
+
+		expect(res.tag).toBe('AbortOperation')
+		expect((res.data as _Try.AbortOperationError).reason).toBe(reason)
+		expect(trySignal?.aborted).toBeTrue()
+
+		const abortedCtrl = new AbortController()
+		abortedCtrl.abort(reason)
+		const abortedRes = await _Try.Async({ signal: abortedCtrl.signal, try: async () => 1 })
+		expect((abortedRes.data as _Try.AbortOperationError).reason).toBe(reason)
+	})
+
+	test('`Try.Async` removes the `abort` listener when the operation is completed', async () => {
+		const ctrl = new AbortController()
+		let trySignal: AbortSignal | undefined
+
+		const res = await _Try.Async({
+			signal: ctrl.signal,
+			try: async (signal) => (trySignal = signal, 1)
+		})
+		ctrl.abort()
+
+		expect(res.data).toBe(1)
+		expect(trySignal?.aborted).toBeFalse()
+	})
+})
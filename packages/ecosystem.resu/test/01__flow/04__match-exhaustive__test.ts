@@ -0,0 +1,98 @@
+import { describe, test, expect } from 'bun:test'
+import { _Ok } from '../../src/modules/result/partials/public.ok'
+import { _Error } from '../../src/modules/result/partials/public.error'
+import { _Match } from '../../src/modules/flow/partials/public.match'
+
+// CHECKLIST:
+// - [X] Every `status:tag` handler processes its result.
+// - [X] The `status` key handles results with the status not covered by `status:tag` keys.
+// - [X] The `_` key handles all results not covered by other keys.
+// - [X] `cause:tag` keys take precedence over `status` and `_` keys.
+// - [X] An unexpected result throws in development mode and is returned as is in production.
+
+describe('Match.Exhaustive (Processing every result of the union)', () => {
+	type AnyUserResult =
+		| _Ok.Ok<{ name: string }, 'UserLoaded'>
+		| _Ok.Ok<null>
+		| _Error.Error<string, 'NotFound'>
+		| _Error.Error<number, 'Timeout'>
+
+	const loaded   = <AnyUserResult> _Ok.Ok({ data: { name: 'Ann' }, tag: 'UserLoaded' })
+	const empty    = <AnyUserResult> _Ok.Ok()
+	const notFound = <AnyUserResult> _Error.Error({ data: '42', tag: 'NotFound' })
+	const timeout  = <AnyUserResult> _Error.Error({ data: 5000, tag: 'Timeout' })
+
+	test('Every `status:tag` handler processes its result', () => {
+		const handle = (result: AnyUserResult) => _Match.Match.Exhaustive(result, {
+			'ok:UserLoaded': (result) => result.data.name,
+			'ok': () => 'Nobody',
+			'error:NotFound': (result) => `User ${result.data} not found`,
+			'error:Timeout': (result) => _Error.ErrorFrom(result.data, 'Retry'),
+		})
+
+		expect(handle(loaded).data).toBe('Ann')
+		expect(handle(empty).data).toBe('Nobody')
+		expect(handle(notFound).data).toBe('User 42 not found')
+
+		const retry = handle(timeout)
+		expect(_Error.IsError(retry)).toBeTrue()
+		expect(retry.tag).toBe('Retry')
+	})
+
+	test('The `status` key handles results with the status not covered by `status:tag` keys', () => {
+		const handle = (result: AnyUserResult) => _Match.Match.Exhaustive(result, {
+			'ok': () => 'Ok',
+			'error:NotFound': () => 'NotFound',
+			'error': (result) => `Other ${result.tag}`,
+		})
+
+		expect(handle(loaded).data).toBe('Ok')
+		expect(handle(empty).data).toBe('Ok')
+		expect(handle(notFound).data).toBe('NotFound')
+		expect(handle(timeout).data).toBe('Other Timeout')
+	})
+
+	test('The `_` key handles all results not covered by other keys', () => {
+		const handle = (result: AnyUserResult) => _Match.Match.Exhaustive(result, {
+			'ok:UserLoaded': (result) => result.data.name,
+			_: (result) => `Unexpected ${result.status}:${result.tag}`,
+		})
+
+		expect(handle(loaded).data).toBe('Ann')
+		expect(handle(empty).data).toBe('Unexpected ok:null')
+		expect(handle(timeout).data).toBe('Unexpected error:Timeout')
+	})
+
+	test('`cause:tag` keys take precedence over `status` and `_` keys', () => {
+		const wrapped = <AnyUserResult> _Error.Error({ data: 5000, tag: 'Timeout', cause: _Error.Error({ tag: 'DbError' }) })
+		const res = _Match.Match.Exhaustive(wrapped, {
+			'cause:DbError': () => 'Database',
+			_: () => 'Other',
+		})
+
+		expect(res.data).toBe('Database')
+	})
+
+	test('An unexpected result throws in development mode and is returned as is in production', () => {
+		const unexpected = <AnyUserResult> <unknown> _Error.Error({ tag: 'Unknown' })
+		const handlers = {
+			'ok:UserLoaded': () => 1,
+			'ok': () => 2,
+			'error:NotFound': () => 3,
+			'error:Timeout': () => 4,
+		}
+
+		expect(() => _Match.Match.Exhaustive(unexpected, handlers)).toThrow('error:Unknown')
+
+		const nodeEnv = process.env.NODE_ENV
+		process.env.NODE_ENV = 'production'
+		try {
+			// The unexpected result is not a part of the return type:
+			const returned: unknown = _Match.Match.Exhaustive(unexpected, handlers)
+			expect(returned).toBe(unexpected)
+		}
+		finally {
+			process.env.NODE_ENV = nodeEnv
+		}
+	})
+})
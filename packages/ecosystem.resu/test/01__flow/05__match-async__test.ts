@@ -0,0 +1,59 @@
+import { describe, test, expect } from 'bun:test'
+import { _Ok } from '../../src/modules/result/partials/public.ok'
+import { _Error } from '../../src/modules/result/partials/public.error'
+import { _Unwrap } from '../../src/modules/result/partials/public.unwrap'
+import { _Match } from '../../src/modules/flow/partials/public.match'
+
+// CHECKLIST:
+// - [X] Async handlers are awaited, non-results are wrapped in `Result.Ok`, results are returned as is.
+// - [X] A promise of a result is accepted, the result without a handler is returned as is.
+// - [X] Without `catch`, an error thrown by a handler rejects the promise.
+// - [X] With `catch`, an error thrown by a handler is converted into a result.
+
+describe('Match.Async (Processing the result with asynchronous handlers)', () => {
+	const okRes    = _Ok.Ok({ data: 1, tag: 'UserLoaded' })
+	const errorRes = _Error.Error({ data: '42', tag: 'NotFound' })
+
+	test('Async handlers are awaited, non-results are wrapped in `Result.Ok`, results are returned as is', async () => {
+		const res1 = await _Match.Match.Async(okRes, { 'ok:UserLoaded': async (result) => result.data + 1 })
+		expect(_Ok.IsOk(res1)).toBeTrue()
+		expect(res1.data).toBe(2)
+
+		const res2 = await _Match.Match.Async(errorRes, { 'error': async (result) => _Error.ErrorFrom(result.data, 'Missing') })
+		expect(_Error.IsError(res2)).toBeTrue()
+		expect(res2.tag).toBe('Missing')
+
+		const res3 = await _Match.Match.Async(okRes, { 'ok': (result) => result.data * 10 })
+		expect(res3.data).toBe(10)
+	})
+
+	test('A promise of a result is accepted, the result without a handler is returned as is', async () => {
+		const res1 = await _Match.Match.Async(Promise.resolve(okRes), { 'ok:UserLoaded': async () => 'Loaded' })
+		expect(res1.data).toBe('Loaded')
+
+		const res2 = await _Match.Match.Async(Promise.resolve(errorRes), { 'ok': async () => 'Loaded' })
+		expect(res2).toBe(errorRes)
+	})
+
+	test('Without `catch`, an error thrown by a handler rejects the promise', async () => {
+		const promise = _Match.Match.Async(okRes, { 'ok': async () => { throw new Error('Boom') } })
+		await expect(promise).rejects.toThrow('Boom')
+	})
+
+	test('With `catch`, an error thrown by a handler is converted into a result', async () => {
+		const res1 = await _Match.Match.Async(okRes, { 'ok': async () => { throw new Error('Boom') } }, {
+			catch: (error) => _Error.ErrorFrom((error as Error).message, 'HandlerFailed'),
+		})
+		expect(_Error.IsError(res1)).toBeTrue()
+		expect(res1.tag).toBe('HandlerFailed')
+		expect(res1.data).toBe('Boom')
+
+		const res2 = await _Match.Match.Async(okRes, { 'ok': () => { throw 'Boom' } }, { catch: (error) => error })
+		expect(_Error.IsError(res2)).toBeTrue()
+		expect(res2.data).toBe('Boom')
+
+		// The type of the thrown result is not known to `Match.Async`, so it is compared as any result:
+		const res3 = await _Match.Match.Async(okRes, { 'ok': () => _Unwrap.Unwrap(errorRes) }, { catch: () => 'Unreachable' })
+		expect(res3).toBe<_Error.AnyError>(errorRes)
+	})
+})
@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'bun:test'
+import { _Ok } from '../../src/modules/result/partials/public.ok'
+import { _Error } from '../../src/modules/result/partials/public.error'
+import { _Match } from '../../src/modules/flow/partials/public.match'
+
+// CHECKLIST:
+// - [X] Cases are matched by `status:tag`, `status` and `cause:tag` keys.
+// - [X] Predicates on the data select the case.
+// - [X] Structural patterns on the data select the case.
+// - [X] Cases are evaluated in order, the first matching case wins.
+// - [X] `otherwise` handles the remaining results, `run` returns them as is.
+
+describe('Match.When (Guard-based pattern matching)', () => {
+	type AnyResponse =
+		| _Ok.Ok<{ items: string[] }, 'List'>
+		| _Error.Error<{ status: number }, 'Http'>
+		| _Error.Error<null, 'Timeout'>
+
+	const list      = <AnyResponse> _Ok.Ok({ data: { items: ['a'] }, tag: 'List' })
+	const emptyList = <AnyResponse> _Ok.Ok({ data: { items: [] }, tag: 'List' })
+	const notFound  = <AnyResponse> _Error.Error({ data: { status: 404 }, tag: 'Http' })
+	const badGate   = <AnyResponse> _Error.Error({ data: { status: 502 }, tag: 'Http' })
+	const timeout   = <AnyResponse> _Error.Error({ tag: 'Timeout', cause: _Error.Error({ tag: 'Socket' }) })
+
+	const describeResponse = (response: AnyResponse) => _Match.Match.When(response)
+		.on('error:Http', (data) => data.status >= 500, (result) => `Server error ${result.data.status}`)
+		.on('error:Http', { status: 404 }, () => 'Not found')
+		.on('ok:List', { items: [] }, () => 'Empty')
+		.on('ok', (result) => `${result.data.items.length} items`)
+		.otherwise((result) => `Unexpected ${result.tag}`)
+
+	test('Cases are matched by `status:tag`, `status` and `cause:tag` keys', () => {
+		expect(describeResponse(list).data).toBe('1 items')
+
+		const res = _Match.Match.When(timeout)
+			.on('cause:Socket', () => 'Socket')
+			.run()
+		expect(res.data).toBe('Socket')
+	})
+
+	test('Predicates on the data select the case', () => {
+		expect(describeResponse(badGate).data).toBe('Server error 502')
+	})
+
+	test('Structural patterns on the data select the case', () => {
+		expect(describeResponse(notFound).data).toBe('Not found')
+		expect(describeResponse(emptyList).data).toBe('Empty')
+	})
+
+	test('Cases are evaluated in order, the first matching case wins', () => {
+		const res = _Match.Match.When(badGate)
+			.on('error', () => 'Any error')
+			.on('error:Http', () => 'Http error')
+			.run()
+		expect(res.data).toBe('Any error')
+	})
+
+	test('`otherwise` handles the remaining results, `run` returns them as is', () => {
+		expect(describeResponse(timeout).data).toBe('Unexpected Timeout')
+
+		const res = _Match.Match.When(notFound)
+			.on('error:Http', (data) => data.status >= 500, () => 'Server error')
+			.run()
+		expect(res).toBe(notFound)
+
+		const error = _Match.Match.When(list)
+			.on('ok', () => _Error.ErrorFrom('Rejected', 'Rejected'))
+			.run()
+		expect(_Error.IsError(error)).toBeTrue()
+		expect(error.tag).toBe('Rejected')
+	})
+})
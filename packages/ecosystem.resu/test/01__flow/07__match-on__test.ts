@@ -0,0 +1,99 @@
+import { describe, test, expect } from 'bun:test'
+import { _Ok } from '../../src/modules/result/partials/public.ok'
+import { _Error } from '../../src/modules/result/partials/public.error'
+import { _Match } from '../../src/modules/flow/partials/public.match'
+
+// CHECKLIST:
+// - [X] Handlers are looked up by `status:tag` first, then by `status`.
+// - [X] The first handler of the same key wins.
+// - [X] Every step returns a new builder, so a partial chain can be branched.
+// - [X] `exhaustive` runs the matching when every result is handled.
+// - [X] `otherwise` handles the remaining results, `run` returns them as is.
+// - [X] `On.Async` accepts a promise of a result and awaits async handlers.
+
+describe('Match.On (Fluent pattern matching)', () => {
+	type AnyUserResult =
+		| _Ok.Ok<{ name: string }, 'UserLoaded'>
+		| _Error.Error<string, 'NotFound'>
+		| _Error.Error<number, 'Timeout'>
+
+	const loaded   = <AnyUserResult> _Ok.Ok({ data: { name: 'Ann' }, tag: 'UserLoaded' })
+	const notFound = <AnyUserResult> _Error.Error({ data: '42', tag: 'NotFound' })
+	const timeout  = <AnyUserResult> _Error.Error({ data: 5000, tag: 'Timeout' })
+
+	test('Handlers are looked up by `status:tag` first, then by `status`', () => {
+		const handle = (result: AnyUserResult) => _Match.Match.On(result)
+			.error('NotFound', (result) => `User ${result.data} not found`)
+			.error((result) => `Other ${result.tag}`)
+			.ok((result) => result.data.name)
+			.run()
+
+		expect(handle(loaded).data).toBe('Ann')
+		expect(handle(notFound).data).toBe('User 42 not found')
+		expect(handle(timeout).data).toBe('Other Timeout')
+	})
+
+	test('The first handler of the same key wins', () => {
+		const res = _Match.Match.On(<_Ok.Ok<number>> _Ok.Ok({ data: 1 }))
+			.ok(() => 'First')
+			.run()
+		expect(res.data).toBe('First')
+
+		const builder = _Match.Match.On(loaded).ok(() => 'First') as unknown as { ok: (handler: () => string) => { run: () => _Ok.AnyOk } }
+		expect(builder.ok(() => 'Second').run().data).toBe('First')
+	})
+
+	test('Every step returns a new builder, so a partial chain can be branched', () => {
+		const base = _Match.Match.On(notFound).error('Timeout', () => 'Timeout')
+
+		const handled = base.error('NotFound', () => 'Handled').run()
+		const passed = base.run()
+
+		expect(handled.data).toBe('Handled')
+		expect(passed).toBe<AnyUserResult>(notFound)
+	})
+
+	test('`exhaustive` runs the matching when every result is handled', () => {
+		const handle = (result: AnyUserResult) => _Match.Match.On(result)
+			.ok((result) => result.data.name)
+			.error('NotFound', () => _Error.ErrorFrom('Missing', 'Missing'))
+			.error('Timeout', (result) => result.data)
+			.exhaustive()
+
+		expect(handle(loaded).data).toBe('Ann')
+		expect(handle(timeout).data).toBe(5000)
+
+		const missing = handle(notFound)
+		expect(_Error.IsError(missing)).toBeTrue()
+		expect(missing.tag).toBe('Missing')
+	})
+
+	test('`otherwise` handles the remaining results, `run` returns them as is', () => {
+		const res1 = _Match.Match.On(timeout)
+			.ok(() => 'Ok')
+			.otherwise((result) => `Unexpected ${result.tag}`)
+		expect(res1.data).toBe('Unexpected Timeout')
+
+		const res2 = _Match.Match.On(timeout)
+			.error('NotFound', () => 'NotFound')
+			.run()
+		// `run` narrows the type of the returned results, while `timeout` has the type of the whole union:
+		expect(res2).toBe<AnyUserResult>(timeout)
+	})
+
+	test('`On.Async` accepts a promise of a result and awaits async handlers', async () => {
+		const res1 = await _Match.Match.On.Async(Promise.resolve(loaded))
+			.ok(async (result) => result.data.name.toUpperCase())
+			.error(() => 'Error')
+			.exhaustive()
+		expect(res1.data).toBe('ANN')
+
+		const res2 = await _Match.Match.On.Async(notFound)
+			.error('Timeout', async () => 'Timeout')
+			.run()
+		expect(res2).toBe<AnyUserResult>(notFound)
+
+		const promise = _Match.Match.On.Async(loaded).ok(async () => { throw new Error('Boom') }).run()
+		await expect(promise).rejects.toThrow('Boom')
+	})
+})
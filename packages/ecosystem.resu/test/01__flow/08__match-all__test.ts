@@ -0,0 +1,87 @@
+import { describe, test, expect } from 'bun:test'
+import { _Ok } from '../../src/modules/result/partials/public.ok'
+import { _Error } from '../../src/modules/result/partials/public.error'
+import { _Match } from '../../src/modules/flow/partials/public.match'
+
+// CHECKLIST:
+// - [X] Keys match combinations of `status:tag`, `status` and `*` segments.
+// - [X] Handlers receive the tuple of results.
+// - [X] Keys are checked in the order of definition, the first matching key wins.
+// - [X] The `_` key handles the combinations not covered by other keys.
+// - [X] Returned errors are propagated, other values are wrapped in `Result.Ok`.
+// - [X] Results with a comma in the tag are matched only by `status`, `*` or `_` segments.
+
+describe('Match.All (Matching several results at once)', () => {
+	type AnyUserResult =
+		| _Ok.Ok<{ name: string }, 'UserLoaded'>
+		| _Error.Error<string, 'NotFound'>
+	type AnyPermissionsResult =
+		| _Ok.Ok<string[]>
+		| _Error.Error<null, 'Forbidden'>
+
+	const loaded    = <AnyUserResult> _Ok.Ok({ data: { name: 'Ann' }, tag: 'UserLoaded' })
+	const notFound  = <AnyUserResult> _Error.Error({ data: '42', tag: 'NotFound' })
+	const granted   = <AnyPermissionsResult> _Ok.Ok({ data: ['read'] })
+	const forbidden = <AnyPermissionsResult> _Error.Error({ tag: 'Forbidden' })
+
+	const render = (user: AnyUserResult, permissions: AnyPermissionsResult) => _Match.Match.All([user, permissions], {
+		'ok:UserLoaded,ok': ([user, permissions]) => `${user.data.name}: ${permissions.data.join(', ')}`,
+		'error:NotFound,*': ([user]) => `User ${user.data} not found`,
+		'*,error:Forbidden': () => _Error.ErrorFrom('Access denied', 'AccessDenied'),
+		_: () => 'Unexpected',
+	})
+
+	test('Keys match combinations of `status:tag`, `status` and `*` segments', () => {
+		expect(render(loaded, granted).data).toBe('Ann: read')
+		expect(render(notFound, granted).data).toBe('User 42 not found')
+		expect(render(loaded, forbidden).tag).toBe('AccessDenied')
+	})
+
+	test('Handlers receive the tuple of results', () => {
+		let received: unknown
+		_Match.Match.All([loaded, granted], {
+			'ok,ok': (results) => { received = results; return 1 },
+			_: () => 2,
+		})
+		expect(received).toEqual([loaded, granted])
+	})
+
+	test('Keys are checked in the order of definition, the first matching key wins', () => {
+		expect(render(notFound, forbidden).data).toBe('User 42 not found')
+	})
+
+	test('The `_` key handles the combinations not covered by other keys', () => {
+		const res = _Match.Match.All([loaded, granted, forbidden], {
+			'ok,ok,ok': () => 'All granted',
+			_: ([, , last]) => `Last is ${last.status}`,
+		})
+		expect(res.data).toBe('Last is error')
+	})
+
+	test('Returned errors are propagated, other values are wrapped in `Result.Ok`', () => {
+		const error = render(loaded, forbidden)
+		expect(_Error.IsError(error)).toBeTrue()
+		expect(error.data).toBe('Access denied')
+
+		const ok = render(loaded, granted)
+		expect(_Ok.IsOk(ok)).toBeTrue()
+	})
+
+	test('Results with a comma in the tag are matched only by `status`, `*` or `_` segments', () => {
+		const ambiguous = <AnyPermissionsResult | _Error.Error<null, 'Denied,Locked'>> _Error.Error({ data: null, tag: 'Denied,Locked' })
+
+		// Segments of the keys are split by commas, so the tag is never confused with the following segments:
+		const byStatus = _Match.Match.All([loaded, ambiguous, granted], {
+			'*,ok,*': () => 'Granted',
+			'ok:UserLoaded,error,ok': () => 'Error',
+			_: () => 'Unexpected',
+		})
+		expect(byStatus.data).toBe('Error')
+
+		const byDefault = _Match.Match.All([ambiguous, granted], {
+			'error:Forbidden,ok': () => 'Forbidden',
+			_: ([result]) => `Unexpected ${result.tag}`,
+		})
+		expect(byDefault.data).toBe('Unexpected Denied,Locked')
+	})
+})
@@ -0,0 +1,89 @@
+import { describe, test, expect } from 'bun:test'
+import { _Pipe } from '../../src/modules/flow/partials/public.pipe'
+import { _Result } from '../../src/modules/result'
+
+// CHECKLIST:
+// - [X] An error skips the transformers up to the recovery step with its tag.
+// - [X] Recovery steps accept several tags or handle any error without tags.
+// - [X] Errors with other tags and success results pass recovery steps unchanged.
+// - [X] The handler may return an error, which continues the early termination.
+// - [X] Recovered results are reported by the iterators.
+
+describe('Pipe.catch (Error recovery steps)', () => {
+	type AnyLoadResult =
+		| _Result.Ok<string, 'Loaded'>
+		| _Result.Error<number, 'Timeout'>
+		| _Result.Error<number, 'NotFound'>
+
+	const load = (id: number) => <AnyLoadResult> (id > 0
+		? _Result.Ok({ data: `user-${id}`, tag: 'Loaded' })
+		: _Result.Error({ data: id, tag: id === 0 ? 'Timeout' : 'NotFound' }))
+
+	test('An error skips the transformers up to the recovery step with its tag', async () => {
+		let calls = 0
+		const syncRes = _Pipe.Sync(0)
+			(x => load(x.data))
+			(x => (calls++, x.data.toUpperCase()))
+			.catch('Timeout', (error) => `cached-${error.data}`)
+			(x => x.data + '!')
+			()
+		expect(syncRes.data).toBe('cached-0!')
+		expect(calls).toBe(0)
+
+		const asyncRes = await _Pipe.Async(0)
+			(async x => load(x.data))
+			.catch('Timeout', async (error) => `cached-${error.data}`)
+			(x => x.data + '!')
+			()
+		expect(asyncRes.data).toBe('cached-0!')
+	})
+
+	test('Recovery steps accept several tags or handle any error without tags', async () => {
+		const syncRes = _Pipe.Sync(-1)(x => load(x.data)).catch(['Timeout', 'NotFound'], () => 'fallback')()
+		expect(syncRes.data).toBe('fallback')
+
+		const asyncRes = await _Pipe.Async(_Result.Error({ data: 'Boom' })).catch((error) => error.data.length)()
+		expect(asyncRes.data).toBe(4)
+	})
+
+	test('Errors with other tags and success results pass recovery steps unchanged', async () => {
+		const notFound = _Pipe.Sync(-1)(x => load(x.data)).catch('Timeout', () => 'fallback')()
+		expect(_Result.IsError(notFound)).toBeTrue()
+		expect(notFound.tag).toBe('NotFound')
+
+		const loaded = await _Pipe.Async(1)(x => load(x.data)).catch('Timeout', () => 'fallback')()
+		expect(loaded.data).toBe('user-1')
+		expect(loaded.tag).toBe('Loaded')
+	})
+
+	test('The handler may return an error, which continues the early termination', () => {
+		let calls = 0
+		const res = _Pipe.Sync(0)
+			(x => load(x.data))
+			.catch('Timeout', () => _Result.ErrorFrom('Gave up', 'GaveUp'))
+			(x => (calls++, x.data))
+			()
+		expect(_Result.IsError(res)).toBeTrue()
+		expect(res.tag).toBe('GaveUp')
+		expect(calls).toBe(0)
+	})
+
+	test('Recovered results are reported by the iterators', async () => {
+		const syncPipe = _Pipe.Sync(0)
+			(x => load(x.data))
+			(x => x.data.length)
+			.catch('Timeout', () => 0)
+			(x => x.data + 1)
+
+		const syncTrace = [...syncPipe].map((res) => `${res.status}:${res.data}`)
+		expect(syncTrace).toEqual(['error:0', 'ok:0', 'ok:1'])
+
+		const asyncPipe = _Pipe.Async(0)
+			(async x => load(x.data))
+			.catch('Timeout', async () => 0)
+
+		const asyncTrace: string[] = []
+		for await (const res of asyncPipe) asyncTrace.push(`${res.status}:${res.data}`)
+		expect(asyncTrace).toEqual(['error:0', 'ok:0'])
+	})
+})
@@ -0,0 +1,106 @@
+import { describe, test, expect } from 'bun:test'
+import { _Pipe } from '../../src/modules/flow/partials/public.pipe'
+import { _Result } from '../../src/modules/result'
+
+// CHECKLIST:
+// - [X] Transformers run on the same result and their data is joined into a tuple or record.
+// - [X] Transformers run concurrently, `concurrency` limits the number of running ones.
+// - [X] `fail-fast` returns the first error without waiting for and starting the pending transformers.
+// - [X] `collect-all` waits for every transformer and returns an error with all results.
+// - [X] A thrown error rejects the step.
+// - [X] Transformers receive the signal of the step, aborting the pipeline stops starting the pending ones.
+
+const delay = <T>(ms: number, value: T) => new Promise<T>((resolve) => setTimeout(resolve, ms, value))
+
+describe('Pipe.Parallel (Parallel fan-out steps)', () => {
+	test('Transformers run on the same result and their data is joined into a tuple or record', async () => {
+		const record = await _Pipe.Async(_Result.OkFrom(7))
+			(_Pipe.Parallel({
+				profile: async (id) => _Result.Ok({ data: { id: id.data }, tag: 'Profile' }),
+				orders: (id) => [id.data * 10],
+			}))
+			(({ data }) => `${data.profile.id}:${data.orders.join()}`)
+			()
+		expect(record.data).toBe('7:70')
+
+		const tuple = await _Pipe.Async(_Result.OkFrom(2))(_Pipe.Parallel([(x) => x.data + 1, async (x) => x.data * 2]))()
+		expect(tuple.data).toEqual([3, 4])
+	})
+
+	test('Transformers run concurrently, `concurrency` limits the number of running ones', async () => {
+		let running = 0
+		let maxRunning = 0
+		const task = async () => {
+			maxRunning = Math.max(maxRunning, ++running)
+			await delay(5, null)
+			running--
+			return 1
+		}
+
+		await _Pipe.Async(1)(_Pipe.Parallel([task, task, task, task]))()
+		expect(maxRunning).toBe(4)
+
+		maxRunning = 0
+		const res = await _Pipe.Async(1)(_Pipe.Parallel([task, task, task, task], { concurrency: 2 }))()
+		expect(maxRunning).toBe(2)
+		expect(res.data).toEqual([1, 1, 1, 1])
+	})
+
+	test('`fail-fast` returns the first error without waiting for and starting the pending transformers', async () => {
+		const started: string[] = []
+		const step = _Pipe.Parallel({
+			slow: async () => (started.push('slow'), delay(50, 'slow')),
+			failing: async () => (started.push('failing'), _Result.ErrorFrom('Boom', 'Failed')),
+			pending: async () => (started.push('pending'), 'pending'),
+		}, { concurrency: 2 })
+
+		const startedAt = Date.now()
+		const res = await _Pipe.Async(1)(step)()
+		expect(_Result.IsError(res)).toBeTrue()
+		expect(res.tag).toBe('Failed')
+		expect(Date.now() - startedAt).toBeLessThan(50)
+		expect(started).toEqual(['slow', 'failing'])
+	})
+
+	test('`collect-all` waits for every transformer and returns an error with all results', async () => {
+		const step = _Pipe.Parallel({
+			ok: async () => delay(5, 'ok'),
+			failing: () => _Result.ErrorFrom('Boom', 'Failed'),
+		}, { mode: 'collect-all' })
+
+		const res = await step(_Result.OkFrom(1))
+		expect(_Result.IsError(res)).toBeTrue()
+		if (_Result.IsError(res)) {
+			expect(res.data.ok.data).toBe('ok')
+			expect(res.data.failing.tag).toBe('Failed')
+		}
+	})
+
+	test('A thrown error rejects the step', async () => {
+		const step = _Pipe.Parallel([() => 1, () => { throw new Error('Boom') }])
+		await expect(step(_Result.OkFrom(1))).rejects.toThrow('Boom')
+	})
+
+	test('Transformers receive the signal of the step, aborting the pipeline stops starting the pending ones', async () => {
+		const controller = new AbortController()
+		const started: string[] = []
+		let branchSignal!: AbortSignal
+
+		const step = _Pipe.Parallel({
+			first: async (_, signal) => {
+				started.push('first')
+				branchSignal = signal
+				controller.abort()
+				return delay(5, 'first')
+			},
+			second: async () => (started.push('second'), 'second'),
+		}, { concurrency: 1 })
+
+		const res = await _Pipe.Async(1, { signal: controller.signal })(step)()
+		await delay(10, null)
+
+		expect(res.tag).toBe('AbortOperation')
+		expect(branchSignal.aborted).toBeTrue()
+		expect(started).toEqual(['first'])
+	})
+})
@@ -0,0 +1,104 @@
+import { describe, test, expect } from 'bun:test'
+import { _Pipe } from '../../src/modules/flow/partials/public.pipe'
+import { _Try } from '../../src/modules/flow/partials/public.try'
+import { _Result } from '../../src/modules/result'
+
+// CHECKLIST:
+// - [X] Each transformer receives an `AbortSignal`.
+// - [X] A step exceeding its timeout returns `Result.Error<Error, 'Timeout'>` and its signal is aborted.
+// - [X] A failed step is retried according to its retry policy.
+// - [X] Aborting the pipeline interrupts the running step and returns `Result.Error<Error, 'AbortOperation'>`.
+// - [X] Aborting the pipeline stops scheduling further steps.
+// - [X] `AbortOperation` of an inner operation with its own signal can be recovered.
+
+const delay = <T>(ms: number, value: T) => new Promise<T>((resolve) => setTimeout(resolve, ms, value))
+
+describe('Pipe.Async options (Timeout, retry and cancellation)', () => {
+	test('Each transformer receives an `AbortSignal`', async () => {
+		let received: unknown
+		await _Pipe.Async(1)((x, signal) => (received = signal, x.data))()
+		expect(received).toBeInstanceOf(AbortSignal)
+	})
+
+	test('A step exceeding its timeout returns `Result.Error<Error, \'Timeout\'>` and its signal is aborted', async () => {
+		let stepSignal!: AbortSignal
+		const res = await _Pipe.Async(1)
+			((x, signal) => (stepSignal = signal, delay(50, x.data)), { timeout: 5 })
+			()
+		expect(_Result.IsError(res)).toBeTrue()
+		expect(res.tag).toBe('Timeout')
+		expect(res.data).toBeInstanceOf(_Try.TimeoutError)
+		expect(stepSignal.aborted).toBeTrue()
+
+		const fast = await _Pipe.Async(1)(async (x) => x.data + 1, { timeout: 50 })()
+		expect(fast.data).toBe(2)
+	})
+
+	test('A failed step is retried according to its retry policy', async () => {
+		let attempts = 0
+		const flaky = async () => ++attempts < 3 ? _Result.ErrorFrom('Busy', 'Busy') : 'Done'
+
+		const res = await _Pipe.Async(1)(flaky, { retry: { attempts: 3, delay: 1 } })()
+		expect(res.data).toBe('Done')
+		expect(attempts).toBe(3)
+
+		attempts = 0
+		const exhausted = await _Pipe.Async(1)(flaky, { retry: { attempts: 2 } })()
+		expect(exhausted.tag).toBe('Busy')
+		expect(attempts).toBe(2)
+
+		attempts = 0
+		const skipped = await _Pipe.Async(1)(flaky, { retry: { attempts: 3, when: (error) => error.tag !== 'Busy' } })()
+		expect(skipped.tag).toBe('Busy')
+		expect(attempts).toBe(1)
+
+		attempts = 0
+		const slow = async () => (++attempts, delay(attempts < 2 ? 50 : 0, 'Done'))
+		const timedOut = await _Pipe.Async(1)(slow, { timeout: 5, retry: { attempts: 2 } })()
+		expect(timedOut.data).toBe('Done')
+	})
+
+	test('Aborting the pipeline interrupts the running step and returns `Result.Error<Error, \'AbortOperation\'>`', async () => {
+		const controller = new AbortController()
+		let stepSignal!: AbortSignal
+		const promise = _Pipe.Async(1, { signal: controller.signal })
+			((x, signal) => (stepSignal = signal, delay(50, x.data)))
+			()
+
+		setTimeout(() => controller.abort(), 5)
+		const res = await promise
+		expect(_Result.IsError(res)).toBeTrue()
+		expect(res.tag).toBe('AbortOperation')
+		expect(res.data).toBeInstanceOf(_Try.AbortOperationError)
+		expect(stepSignal.aborted).toBeTrue()
+	})
+
+	test('Aborting the pipeline stops scheduling further steps', async () => {
+		const controller = new AbortController()
+		let calls = 0
+		const res = await _Pipe.Async(1, { signal: controller.signal })
+			((x) => (controller.abort(), x.data))
+			((x) => (calls++, x.data))
+			()
+		expect(res.tag).toBe('AbortOperation')
+		expect(calls).toBe(0)
+
+		let attempts = 0
+		const retried = await _Pipe.Async(1, { signal: controller.signal })
+			(() => (attempts++, _Result.ErrorFrom('Busy', 'Busy')), { retry: { attempts: 3 } })
+			()
+		expect(retried.tag).toBe('AbortOperation')
+		expect(attempts).toBe(0)
+	})
+
+	test('`AbortOperation` of an inner operation with its own signal can be recovered', async () => {
+		const inner = new AbortController()
+		inner.abort()
+
+		const res = await _Pipe.Async(1, { signal: new AbortController().signal })
+			(() => _Try.Async({ signal: inner.signal, try: async () => 'Loaded' }))
+			.catch('AbortOperation', () => 'Recovered')
+			()
+		expect(res.data).toBe('Recovered')
+	})
+})
@@ -0,0 +1,130 @@
+import { describe, test, expect } from 'bun:test'
+import { _Pipe } from '../../src/modules/flow/partials/public.pipe'
+import { _Trace } from '../../src/modules/flow/partials/public.trace'
+import { _Result } from '../../src/modules/result'
+
+// CHECKLIST:
+// - [X] `onStepStart` and `onStepEnd` receive the index, the name, the input, the output and the duration of every step.
+// - [X] `onShortCircuit` is called for every step skipped because of the error.
+// - [X] Hooks are called by the iterators as well.
+// - [X] `Trace` reports every step as a span of an OpenTelemetry-like tracer.
+// - [X] A thrown error or a rejection is reported by `onStepError` and ends the span of `Trace`.
+
+/**
+ * Records the calls of the tracing hooks.
+ */
+const createRecorder = () => {
+	const calls: string[] = []
+	const hooks: _Trace.Hooks = {
+		onStepStart: (event) => calls.push(`start:${event.index}:${event.name}:${event.input.data}`),
+		onStepEnd: (event) => calls.push(`end:${event.index}:${event.output.status}:${event.output.data}:${event.duration >= 0}`),
+		onShortCircuit: (event) => calls.push(`skip:${event.index}:${event.name}:${event.input.tag}`),
+		onStepError: (event) => calls.push(`error:${event.index}:${(event.error as Error).message}:${event.duration >= 0}`),
+	}
+	return { calls, hooks }
+}
+
+describe('Pipe tracing (Named steps and tracing hooks)', () => {
+	type AnyStepResult =
+		| _Result.Ok<number>
+		| _Result.Error<string, 'Failed'>
+
+	const fail = (message: string) => <AnyStepResult> _Result.ErrorFrom(message, 'Failed')
+
+	test('`onStepStart` and `onStepEnd` receive the index, the name, the input, the output and the duration of every step', async () => {
+		const sync = createRecorder()
+		_Pipe.Sync(1, { trace: sync.hooks })(x => x.data + 1, { name: 'inc' })(x => x.data * 2)()
+		expect(sync.calls).toEqual([
+			'start:0:inc:1', 'end:0:ok:2:true',
+			'start:1:undefined:2', 'end:1:ok:4:true',
+		])
+
+		const async = createRecorder()
+		let duration = 0
+		await _Pipe.Async(1, { trace: { ...async.hooks, onStepEnd: (event: _Trace.StepEndEvent) => duration = event.duration } })
+			(async x => new Promise<number>((resolve) => setTimeout(resolve, 20, x.data)), { name: 'wait' })
+			()
+		expect(async.calls).toEqual(['start:0:wait:1'])
+		expect(duration).toBeGreaterThanOrEqual(15)
+	})
+
+	test('`onShortCircuit` is called for every step skipped because of the error', async () => {
+		const { calls, hooks } = createRecorder()
+		await _Pipe.Async(1, { trace: hooks })
+			(() => fail('Boom'), { name: 'fail' })
+			(x => x.data, { name: 'skipped' })
+			.catch('Failed', () => 'recovered')
+			(x => x.data)
+			()
+		expect(calls).toEqual([
+			'start:0:fail:1', 'end:0:error:Boom:true',
+			'skip:1:skipped:Failed',
+			'start:2:undefined:Boom', 'end:2:ok:recovered:true',
+			'start:3:undefined:recovered', 'end:3:ok:recovered:true',
+		])
+	})
+
+	test('Hooks are called by the iterators as well', async () => {
+		const { calls, hooks } = createRecorder()
+		for (const _ of _Pipe.Sync(1, { trace: hooks })(x => x.data + 1)) void _
+		for await (const _ of _Pipe.Async(1, { trace: hooks })(x => x.data + 2)) void _
+		expect(calls).toEqual(['start:0:undefined:1', 'end:0:ok:2:true', 'start:0:undefined:1', 'end:0:ok:3:true'])
+	})
+
+	test('`Trace` reports every step as a span of an OpenTelemetry-like tracer', async () => {
+		const spans: Array<{ name: string, attributes: Record<string, unknown>, status?: { code: number, message?: string }, ended: boolean }> = []
+		const tracer: _Trace.Tracer = {
+			startSpan: (name, options) => {
+				const span = { name, attributes: { ...options?.attributes } as Record<string, unknown>, status: undefined as { code: number, message?: string } | undefined, ended: false }
+				spans.push(span)
+				return {
+					setAttribute: (key, value) => span.attributes[key] = value,
+					setStatus: (status) => span.status = status,
+					end: () => span.ended = true,
+				}
+			},
+		}
+
+		await _Pipe.Async(1, { trace: _Pipe.Trace(tracer, { prefix: 'checkout' }) })
+			(x => x.data, { name: 'validate' })
+			(() => fail('Declined'), { name: 'charge' })
+			(x => x.data)
+			()
+
+		expect(spans.map((span) => span.name)).toEqual(['checkout.validate', 'checkout.charge', 'checkout.2'])
+		expect(spans.every((span) => span.ended)).toBeTrue()
+
+		expect(spans[0]!.attributes).toMatchObject({ 'pipe.step.index': 0, 'pipe.step.name': 'validate', 'result.status': 'ok' })
+		expect(spans[0]!.attributes['pipe.step.duration_ms']).toBeNumber()
+		expect(spans[0]!.status).toEqual({ code: 1 })
+
+		expect(spans[1]!.attributes).toMatchObject({ 'result.status': 'error', 'result.tag': 'Failed' })
+		expect(spans[1]!.status).toEqual({ code: 2, message: 'Failed' })
+
+		expect(spans[2]!.attributes).toMatchObject({ 'pipe.step.index': 2, 'pipe.step.skipped': true })
+	})
+
+	test('A thrown error or a rejection is reported by `onStepError` and ends the span of `Trace`', async () => {
+		const { calls, hooks } = createRecorder()
+		expect(() => _Pipe.Sync(1, { trace: hooks })(() => { throw new Error('Thrown') })()).toThrow('Thrown')
+		await expect(_Pipe.Async(1, { trace: hooks })(async () => { throw new Error('Rejected') })()).rejects.toThrow('Rejected')
+		expect(calls).toEqual([
+			'start:0:undefined:1', 'error:0:Thrown:true',
+			'start:0:undefined:1', 'error:0:Rejected:true',
+		])
+
+		const statuses: Array<{ code: number, message?: string }> = []
+		let ended = 0
+		const tracer: _Trace.Tracer = {
+			startSpan: () => ({
+				setAttribute: () => undefined,
+				setStatus: (status) => statuses.push(status),
+				end: () => ended++,
+			}),
+		}
+
+		await expect(_Pipe.Async(1, { trace: _Pipe.Trace(tracer) })(async () => { throw new Error('Rejected') })()).rejects.toThrow('Rejected')
+		expect(statuses).toEqual([{ code: 2, message: 'Rejected' }])
+		expect(ended).toBe(1)
+	})
+})
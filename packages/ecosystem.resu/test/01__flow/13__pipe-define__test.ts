@@ -0,0 +1,73 @@
+import { describe, test, expect } from 'bun:test'
+import { _Pipe } from '../../src/modules/flow/partials/public.pipe'
+import { _Result } from '../../src/modules/result'
+
+// CHECKLIST:
+// - [X] The defined pipeline runs its steps for every call with the given input.
+// - [X] The defined pipeline is composed into other pipelines as a single step.
+// - [X] Steps added after the definition is finished do not change the defined pipeline.
+// - [X] `Define.Async` accepts a promise of the input and is cancelled by the signal.
+
+describe('Pipe.Define (Reusable pipelines)', () => {
+	const normalizeEmail = _Pipe.Define<string>()
+		(email => email.data.trim())
+		(email => email.data.includes('@') ? email.data.toLowerCase() : _Result.ErrorFrom(email.data, 'InvalidEmail'))
+		.catch('InvalidEmail', (error) => `${error.data}@example.com`)
+		()
+
+	test('The defined pipeline runs its steps for every call with the given input', () => {
+		let calls = 0
+		const double = _Pipe.Define<number>()(x => (calls++, x.data * 2))()
+
+		expect(double(1).data).toBe(2)
+		expect(double(_Result.OkFrom(5)).data).toBe(10)
+		expect(calls).toBe(2)
+
+		expect(normalizeEmail(' Ann@Example.COM ').data).toBe('ann@example.com')
+		expect(normalizeEmail('ann').data).toBe('ann@example.com')
+	})
+
+	test('The defined pipeline is composed into other pipelines as a single step', async () => {
+		const syncRes = _Pipe.Sync({ email: ' Bob@Example.com ' })
+			(form => form.data.email)
+			(normalizeEmail)
+			(email => `<${email.data}>`)
+			()
+		expect(syncRes.data).toBe('<bob@example.com>')
+
+		const asyncRes = await _Pipe.Async(Promise.resolve(' Eve '))
+			(normalizeEmail)
+			(_Pipe.Define.Async<string>()(async email => email.data.toUpperCase())())
+			()
+		expect(asyncRes.data).toBe('EVE@EXAMPLE.COM')
+	})
+
+	test('Steps added after the definition is finished do not change the defined pipeline', () => {
+		const builder = _Pipe.Define<number>()(x => x.data + 1)
+		const increment = builder()
+		const incrementTwice = builder(x => x.data + 1)()
+
+		expect(increment(1).data).toBe(2)
+		expect(incrementTwice(1).data).toBe(3)
+	})
+
+	test('`Define.Async` accepts a promise of the input and is cancelled by the signal', async () => {
+		const load = _Pipe.Define.Async<number>()
+			((id, signal) => new Promise<number>((resolve) => {
+				const timer = setTimeout(resolve, 50, id.data * 10)
+				signal.addEventListener('abort', () => clearTimeout(timer))
+			}))
+			(x => x.data + 1)
+			()
+
+		expect((await load(Promise.resolve(4))).data).toBe(41)
+
+		const controller = new AbortController()
+		const promise = load(1, controller.signal)
+		setTimeout(() => controller.abort(), 10)
+
+		const res = await promise
+		expect(_Result.IsError(res)).toBeTrue()
+		expect(res.tag).toBe('AbortOperation')
+	})
+})
@@ -0,0 +1,120 @@
+import { describe, test, expect, expectTypeOf } from 'bun:test'
+import { _Gen } from '../../src/modules/flow/partials/public.gen'
+import { _Result } from '../../src/modules/result'
+
+// CHECKLIST:
+// - [X] `yield*` unwraps the data of the success result.
+// - [X] `yield*` of an error terminates the generator and returns the error.
+// - [X] The returned value is wrapped into `Result.Ok` unless it is a `Result`.
+// - [X] `finally` blocks run when the generator is terminated by an error.
+// - [X] Results stay plain objects: the iterator is not enumerable.
+// - [X] The iterator does not change the data inferred by `OkFrom` and `ErrorFrom` from results.
+// - [X] `Gen.Async` awaits the results and unwraps them the same way.
+
+describe('Gen (Generator-based do-notation)', () => {
+	type User = { name: string, orgId: number }
+	type Org = { title: string }
+
+	const getUser = (id: number) => <_Result.Ok<User> | _Result.Error<number, 'NotFound'>> (id > 0
+		? _Result.OkFrom({ name: 'Ann', orgId: 7 })
+		: _Result.ErrorFrom(id, 'NotFound'))
+
+	const getOrg = (id: number) => <_Result.Ok<Org> | _Result.Error<string, 'Forbidden'>> (id === 7
+		? _Result.OkFrom({ title: 'Acme' })
+		: _Result.ErrorFrom(`org-${id}`, 'Forbidden'))
+
+	test('`yield*` unwraps the data of the success result', () => {
+		const res = _Gen.Gen(function * () {
+			const user = yield * getUser(1)
+			const org = yield * getOrg(user.orgId)
+			return _Result.OkFrom(`${user.name} from ${org.title}`)
+		})
+		expect(res.status).toBe('ok')
+		expect(res.data).toBe('Ann from Acme')
+	})
+
+	test('`yield*` of an error terminates the generator and returns the error', () => {
+		let calls = 0
+		const res = _Gen.Gen(function * () {
+			const user = yield * getUser(-1)
+			calls++
+			return yield * getOrg(user.orgId)
+		})
+		expect(_Result.IsError(res)).toBeTrue()
+		expect(res.tag).toBe('NotFound')
+		expect(res.data).toBe(-1)
+		expect(calls).toBe(0)
+	})
+
+	test('The returned value is wrapped into `Result.Ok` unless it is a `Result`', () => {
+		const res1 = _Gen.Gen(function * () {
+			const user = yield * getUser(1)
+			return user.name
+		})
+		expect(_Result.IsOk(res1)).toBeTrue()
+		expect(res1.data).toBe('Ann')
+
+		const res2 = _Gen.Gen(function * () {
+			const user = yield * getUser(1)
+			return _Result.ErrorFrom(user.name, 'Rejected')
+		})
+		expect(_Result.IsError(res2)).toBeTrue()
+		expect(res2.tag).toBe('Rejected')
+	})
+
+	test('`finally` blocks run when the generator is terminated by an error', () => {
+		const calls: string[] = []
+		_Gen.Gen(function * () {
+			try {
+				yield * getUser(0)
+				calls.push('after')
+			} finally {
+				calls.push('finally')
+			}
+			return null
+		})
+		expect(calls).toEqual(['finally'])
+	})
+
+	test('Results stay plain objects: the iterator is not enumerable', () => {
+		const res = _Result.OkFrom({ name: 'Ann' })
+		expect(Object.keys(res)).toEqual(['status', 'data', 'tag'])
+		expect(Symbol.iterator in { ...res }).toBeFalse()
+		expect([ ...res ]).toEqual([])
+		expect([ ..._Result.ErrorFrom('Boom') ]).toHaveLength(1)
+	})
+
+	test('The iterator does not change the data inferred by `OkFrom` and `ErrorFrom` from results', () => {
+		const errorRes = _Result.ErrorFrom(1, 'A')
+
+		const retaggedRes = _Result.ErrorFrom(errorRes, 'B')
+		expectTypeOf(retaggedRes.data).toEqualTypeOf<number>()
+		expectTypeOf(retaggedRes.tag).toEqualTypeOf<'B'>()
+		expect(retaggedRes.data).toBe(1)
+
+		const fromErrorRes = _Result.OkFrom(errorRes)
+		expectTypeOf(fromErrorRes.data).toEqualTypeOf<number>()
+		expectTypeOf(fromErrorRes.tag).toEqualTypeOf<'A'>()
+
+		const fromOkRes = _Result.ErrorFrom(_Result.OkFrom('Ann'))
+		expectTypeOf(fromOkRes.data).toEqualTypeOf<string>()
+	})
+
+	test('`Gen.Async` awaits the results and unwraps them the same way', async () => {
+		const fetchUser = async (id: number) => getUser(id)
+
+		const res1 = await _Gen.Gen.Async(async function * () {
+			const user = yield * await fetchUser(1)
+			const org = yield * getOrg(user.orgId)
+			return { user: user.name, org: org.title }
+		})
+		expect(res1.data).toEqual({ user: 'Ann', org: 'Acme' })
+
+		const res2 = await _Gen.Gen.Async(async function * () {
+			const user = yield * await fetchUser(1)
+			return yield * getOrg(user.orgId + 1)
+		})
+		expect(res2.tag).toBe('Forbidden')
+		expect(res2.data).toBe('org-8')
+	})
+})
@@ -0,0 +1,84 @@
+import { describe, test, expect } from 'bun:test'
+import { _Pipe } from '../../src/modules/flow/partials/public.pipe'
+import { _Result } from '../../src/modules/result'
+
+// CHECKLIST:
+// - [X] `bind` adds the data of the result, `let` adds the value as is.
+// - [X] Every step sees the context of all previously bound names.
+// - [X] An error terminates the pipeline and is returned as is.
+// - [X] `Do.Async` awaits the steps and applies the options of the steps.
+// - [X] Steps are reported to the tracing hooks under the bound names.
+
+describe('Pipe.Do (Context-accumulating pipelines)', () => {
+	type User = { id: number, orgId: number }
+
+	const getUser = (id: number) => <_Result.Ok<User> | _Result.Error<number, 'NotFound'>> (id > 0
+		? _Result.OkFrom({ id, orgId: 7 })
+		: _Result.ErrorFrom(id, 'NotFound'))
+
+	test('`bind` adds the data of the result, `let` adds the value as is', () => {
+		const res = _Pipe.Do()
+			.bind('user', () => getUser(1))
+			.bind('name', () => 'Ann')
+			.let('raw', () => _Result.OkFrom(1))
+			()
+
+		expect(_Result.IsOk(res)).toBeTrue()
+		if (!_Result.IsOk(res)) throw new Error('Unexpected result')
+
+		expect(res.data).toMatchObject({ user: { id: 1, orgId: 7 }, name: 'Ann' })
+		expect(_Result.IsOk(res.data.raw)).toBeTrue()
+	})
+
+	test('Every step sees the context of all previously bound names', () => {
+		const res = _Pipe.Do({ id: 5 })
+			.bind('user', (ctx) => getUser(ctx.id))
+			.let('isOwner', (ctx) => ctx.user.id === ctx.id)
+			.bind('summary', (ctx) => `${ctx.id}:${ctx.user.orgId}:${ctx.isOwner}`)
+			()
+
+		expect(res.data).toEqual({ id: 5, user: { id: 5, orgId: 7 }, isOwner: true, summary: '5:7:true' })
+	})
+
+	test('An error terminates the pipeline and is returned as is', () => {
+		let calls = 0
+		const res = _Pipe.Do({ id: 0 })
+			.bind('user', (ctx) => getUser(ctx.id))
+			.let('count', () => ++calls)
+			()
+
+		expect(_Result.IsError(res)).toBeTrue()
+		expect(res.tag).toBe('NotFound')
+		expect(res.data).toBe(0)
+		expect(calls).toBe(0)
+	})
+
+	test('`Do.Async` awaits the steps and applies the options of the steps', async () => {
+		let attempts = 0
+		const res1 = await _Pipe.Do.Async({ id: 3 })
+			.bind('user', async (ctx) => getUser(ctx.id))
+			.bind('org', async (ctx) => ++attempts < 2 ? _Result.ErrorFrom('Busy', 'Busy') : `org-${ctx.user.orgId}`, { retry: { attempts: 2 } })
+			.let('label', async (ctx) => `${ctx.user.id}@${ctx.org}`)
+			()
+		expect(res1.data).toEqual({ id: 3, user: { id: 3, orgId: 7 }, org: 'org-7', label: '3@org-7' })
+		expect(attempts).toBe(2)
+
+		const res2 = await _Pipe.Do.Async()
+			.bind('slow', (_, signal) => new Promise<string>((resolve) => {
+				const timer = setTimeout(resolve, 100, 'done')
+				signal.addEventListener('abort', () => clearTimeout(timer))
+			}), { timeout: 10 })
+			()
+		expect(res2.tag).toBe('Timeout')
+	})
+
+	test('Steps are reported to the tracing hooks under the bound names', async () => {
+		const names: Array<string | undefined> = []
+		const trace: _Pipe.TraceHooks = { onStepStart: (event) => names.push(event.name) }
+
+		_Pipe.Do({}, { trace }).bind('user', () => getUser(1)).let('flag', () => true)()
+		await _Pipe.Do.Async({}, { trace }).bind('user', () => getUser(1), { name: 'loadUser' })()
+
+		expect(names).toEqual(['user', 'flag', 'loadUser'])
+	})
+})
@@ -0,0 +1,112 @@
+import { describe, test, expect } from 'bun:test'
+import { _Pipe } from '../../src/modules/flow/partials/public.pipe'
+import { _Result } from '../../src/modules/result'
+
+// CHECKLIST:
+// - [X] One result is emitted per item in the order of the source (async iterable, iterable, `ReadableStream`).
+// - [X] `concurrency` limits the items processed at the same time, the source is read on demand.
+// - [X] `halt` stops the stream on the first error or on the tags, aborts the items and closes the source.
+// - [X] `Stream.Transform` is used with `pipeThrough`.
+
+describe('Pipe.Stream (Streaming pipelines)', () => {
+	const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+	const parse = _Pipe.Define.Async<string>()
+		(row => Number(row.data))
+		(num => Number.isNaN(num.data) ? _Result.ErrorFrom(num.data, 'NotANumber') : num.data)
+		()
+
+	const collect = async <T> (iterable: AsyncIterable<T>) => {
+		const items: T[] = []
+		for await (const item of iterable) items.push(item)
+		return items
+	}
+
+	test('One result is emitted per item in the order of the source (async iterable, iterable, `ReadableStream`)', async () => {
+		async function * rows () {
+			yield '1'
+			yield 'x'
+			yield '3'
+		}
+		const results = await collect(_Pipe.Stream(rows(), parse))
+		expect(results.map((result) => result.status)).toEqual(['ok', 'error', 'ok'])
+		expect(results[2]!.data).toBe(3)
+
+		const delays = await collect(_Pipe.Stream([30, 10, 20], async (ms) => (await sleep(ms), ms), { concurrency: 3 }))
+		expect(delays.map((result) => result.data)).toEqual([30, 10, 20])
+
+		const stream = new ReadableStream<string>({
+			start: (controller) => {
+				controller.enqueue('5')
+				controller.close()
+			},
+		})
+		expect((await collect(_Pipe.Stream(stream, parse)))[0]!.data).toBe(5)
+	})
+
+	test('`concurrency` limits the items processed at the same time, the source is read on demand', async () => {
+		let running = 0
+		let maxRunning = 0
+		let read = 0
+
+		function * items () {
+			for (let i = 0; i < 10; i++) yield (read++, i)
+		}
+		const process = async (item: number) => {
+			maxRunning = Math.max(maxRunning, ++running)
+			await sleep(5)
+			running--
+			return item
+		}
+
+		const stream = _Pipe.Stream(items(), process, { concurrency: 3 })
+		await stream.next()
+		expect(read).toBe(3)
+
+		await collect(stream)
+		expect(maxRunning).toBe(3)
+		expect(read).toBe(10)
+	})
+
+	test('`halt` stops the stream on the first error or on the tags, aborts the items and closes the source', async () => {
+		let isClosed = false
+		let isAborted = false
+
+		async function * rows () {
+			try {
+				yield * ['1', 'x', '3', '4']
+			} finally {
+				isClosed = true
+			}
+		}
+		const process = async (row: string, signal: AbortSignal) => {
+			signal.addEventListener('abort', () => isAborted = true)
+			await sleep(row === '1' ? 10 : 1)
+			return parse(row)
+		}
+
+		const results = await collect(_Pipe.Stream(rows(), process, { concurrency: 3, halt: true }))
+		expect(results.map((result) => result.status)).toEqual(['ok', 'error'])
+		expect(isClosed).toBeTrue()
+		expect(isAborted).toBeTrue()
+
+		const byTags = await collect(_Pipe.Stream(['x', '2', 'y'], parse, { halt: ['NotANumber'] }))
+		expect(byTags).toHaveLength(1)
+
+		const unhalted = await collect(_Pipe.Stream(['x', '2'], parse, { halt: false }))
+		expect(unhalted).toHaveLength(2)
+	})
+
+	test('`Stream.Transform` is used with `pipeThrough`', async () => {
+		const source = new ReadableStream<string>({
+			start: (controller) => {
+				['1', '2', 'x'].forEach((row) => controller.enqueue(row))
+				controller.close()
+			},
+		})
+
+		const results = await collect(source.pipeThrough(_Pipe.Stream.Transform(parse, { concurrency: 2 })) as unknown as AsyncIterable<_Result.Any>)
+		expect(results.map((result) => result.data)).toEqual([1, 2, NaN])
+		expect(results[2]!.tag).toBe('NotANumber')
+	})
+})
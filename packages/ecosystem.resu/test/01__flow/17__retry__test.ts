@@ -0,0 +1,153 @@
+import { describe, test, expect } from 'bun:test'
+import { _Retry } from '../../src/modules/flow/partials/public.retry'
+import { _Result } from '../../src/modules/result'
+
+// CHECKLIST:
+// - [X] The function is called until it returns `Result.Ok`.
+// - [X] Exhausted attempts return `RetryExhausted` with the error of every attempt.
+// - [X] Only errors matching `retryOn` (tags or predicate) are retried.
+// - [X] `backoff` sets the delays: fixed, exponential (with jitter) and decorrelated jitter.
+// - [X] `maxElapsed` stops the retrying when the next delay would exceed it.
+// - [X] `signal` cancels the waiting and returns `AbortOperation`.
+// - [X] Aborting during an attempt skips the next delay.
+// - [X] `onAttempt` is called after every attempt.
+
+describe('Retry (Retry policies)', () => {
+	/**
+	 * Fake clock which records the delays and moves the time instantly.
+	 */
+	const createClock = () => {
+		const delays: number[] = []
+		let time = 0
+		const clock: _Retry.Clock = {
+			now: () => time,
+			sleep: async (ms) => {
+				delays.push(ms)
+				time += ms
+			},
+		}
+		return { clock, delays }
+	}
+
+	type AnyFetchResult =
+		| _Result.Ok<string>
+		| _Result.Error<number, 'Unavailable'>
+		| _Result.Error<number, 'NotFound'>
+
+	/**
+	 * Create the function failing with the tag for the given number of attempts.
+	 */
+	const failTimes = (times: number, tag: 'Unavailable' | 'NotFound' = 'Unavailable') => ({ attempt }: _Retry.AttemptContext) => <AnyFetchResult> (attempt > times
+		? _Result.OkFrom(`ok-${attempt}`)
+		: _Result.ErrorFrom(attempt, tag))
+
+	test('The function is called until it returns `Result.Ok`', async () => {
+		const { clock } = createClock()
+		const res = await _Retry.Retry(failTimes(2), { attempts: 3, clock })
+		expect(_Result.IsOk(res)).toBeTrue()
+		expect(res.data).toBe('ok-3')
+
+		const value = await _Retry.Retry(async () => 42)
+		expect(value.data).toBe(42)
+	})
+
+	test('Exhausted attempts return `RetryExhausted` with the error of every attempt', async () => {
+		const { clock } = createClock()
+		const res = await _Retry.Retry(failTimes(5), { attempts: 3, clock })
+
+		expect(res.tag).toBe('RetryExhausted')
+		if (res.tag !== 'RetryExhausted') throw new Error('Unexpected result')
+
+		expect(res.data).toBeInstanceOf(_Retry.RetryExhaustedError)
+		expect(res.data.errors.map((error) => error.data)).toEqual([1, 2, 3])
+		expect(res.data.message).toBe('Retry exhausted after 3 attempts')
+	})
+
+	test('Only errors matching `retryOn` (tags or predicate) are retried', async () => {
+		const { clock } = createClock()
+
+		const res1 = await _Retry.Retry(failTimes(1, 'NotFound'), { retryOn: ['Unavailable'], clock })
+		expect(res1.tag).toBe('NotFound')
+		expect(res1.data).toBe(1)
+
+		const res2 = await _Retry.Retry(failTimes(1, 'Unavailable'), { retryOn: ['Unavailable'], clock })
+		expect(res2.data).toBe('ok-2')
+
+		const res3 = await _Retry.Retry(failTimes(3), { attempts: 5, retryOn: (error) => error.data < 2, clock })
+		expect(res3.data).toBe(2)
+	})
+
+	test('`backoff` sets the delays: fixed, exponential (with jitter) and decorrelated jitter', async () => {
+		const fixed = createClock()
+		await _Retry.Retry(failTimes(9), { attempts: 4, backoff: { type: 'fixed', delay: 50 }, clock: fixed.clock })
+		expect(fixed.delays).toEqual([50, 50, 50])
+
+		const exponential = createClock()
+		await _Retry.Retry(failTimes(9), { attempts: 5, backoff: { type: 'exponential', delay: 100, maxDelay: 500 }, clock: exponential.clock })
+		expect(exponential.delays).toEqual([100, 200, 400, 500])
+
+		const jitter = createClock()
+		await _Retry.Retry(failTimes(9), { attempts: 3, backoff: { type: 'exponential', delay: 100, jitter: true }, clock: jitter.clock, random: () => 0.5 })
+		expect(jitter.delays).toEqual([50, 100])
+
+		const decorrelated = createClock()
+		await _Retry.Retry(failTimes(9), { attempts: 4, backoff: { type: 'decorrelated-jitter', delay: 100, maxDelay: 1000 }, clock: decorrelated.clock, random: () => 1 })
+		expect(decorrelated.delays).toEqual([300, 900, 1000])
+	})
+
+	test('`maxElapsed` stops the retrying when the next delay would exceed it', async () => {
+		const { clock, delays } = createClock()
+		const res = await _Retry.Retry(failTimes(9), { attempts: 10, maxElapsed: 250, backoff: { type: 'fixed', delay: 100 }, clock })
+
+		expect(res.tag).toBe('RetryExhausted')
+		expect(delays).toEqual([100, 100])
+	})
+
+	test('`signal` cancels the waiting and returns `AbortOperation`', async () => {
+		const controller = new AbortController()
+		let calls = 0
+
+		const promise = _Retry.Retry(() => (calls++, _Result.ErrorFrom('Busy', 'Busy')), {
+			attempts: 5,
+			backoff: { type: 'fixed', delay: 1000 },
+			signal: controller.signal,
+		})
+		setTimeout(() => controller.abort(), 10)
+
+		const res = await promise
+		expect(res.tag).toBe('AbortOperation')
+		expect(calls).toBe(1)
+	})
+
+	test('Aborting during an attempt skips the next delay', async () => {
+		const controller = new AbortController()
+		let calls = 0
+
+		const startedAt = Date.now()
+		const res = await _Retry.Retry(async () => {
+			calls++
+			controller.abort()
+			return _Result.ErrorFrom('Busy', 'Busy')
+		}, {
+			attempts: 5,
+			backoff: { type: 'fixed', delay: 1500 },
+			signal: controller.signal,
+		})
+
+		expect(res.tag).toBe('AbortOperation')
+		expect(calls).toBe(1)
+		expect(Date.now() - startedAt).toBeLessThan(500)
+	})
+
+	test('`onAttempt` is called after every attempt', async () => {
+		const { clock } = createClock()
+		const events: Array<[number, string, number | null]> = []
+
+		await _Retry.Retry(failTimes(2), {
+			backoff: { type: 'fixed', delay: 10 },
+			clock,
+			onAttempt: ({ attempt, result, delay }) => events.push([attempt, result.status, delay]),
+		})
+		expect(events).toEqual([[1, 'error', 10], [2, 'error', 10], [3, 'ok', null]])
+	})
+})
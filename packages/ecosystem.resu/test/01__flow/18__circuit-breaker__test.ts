@@ -0,0 +1,216 @@
+import { describe, test, expect } from 'bun:test'
+import { _Circuit } from '../../src/modules/flow/partials/public.circuit'
+import { _Result } from '../../src/modules/result'
+import { _Logger } from '../../src/modules/logger'
+
+// CHECKLIST:
+// - [X] The circuit opens after `threshold` failures in a row.
+// - [X] The open circuit returns `CircuitOpen` without calling the function.
+// - [X] After `coolDown` a trial success closes the circuit, a trial failure opens it again.
+// - [X] Only errors matching `failOn` (tags or predicate) are counted as failures.
+// - [X] Exceptions are counted as failures and rethrown.
+// - [X] `onStateChange`, `metrics` and `reset` report and control the state.
+// - [X] Calls started before `reset` do not change the state of the reset circuit.
+// - [X] State changes are passed to `Logger.Engine` with `log`.
+
+describe('CircuitBreaker (Circuit breaker)', () => {
+	type AnyFetchResult =
+		| _Result.Ok<string>
+		| _Result.Error<number, 'Unavailable'>
+		| _Result.Error<number, 'NotFound'>
+
+	/**
+	 * Create the function returning the queued results and counting the calls.
+	 */
+	const createService = () => {
+		const service = {
+			calls: 0,
+			fail: null as null | 'Unavailable' | 'NotFound',
+			fetch: async (id: number) => {
+				service.calls++
+				return <AnyFetchResult> (service.fail ? _Result.ErrorFrom(id, service.fail) : _Result.OkFrom(`item-${id}`))
+			},
+		}
+		return service
+	}
+
+	/**
+	 * Fake clock moved manually.
+	 */
+	const createClock = () => {
+		const clock = { time: 0, now: () => clock.time }
+		return clock
+	}
+
+	test('The circuit opens after `threshold` failures in a row', async () => {
+		const service = createService()
+		const breaker = _Circuit.CircuitBreaker(service.fetch, { threshold: 3 })
+
+		service.fail = 'Unavailable'
+		await breaker(1)
+		await breaker(2)
+		expect(breaker.state).toBe('closed')
+
+		// A success resets the failures in a row:
+		service.fail = null
+		await breaker(3)
+		service.fail = 'Unavailable'
+		await breaker(4)
+		await breaker(5)
+		expect(breaker.state).toBe('closed')
+
+		await breaker(6)
+		expect(breaker.state).toBe('open')
+	})
+
+	test('The open circuit returns `CircuitOpen` without calling the function', async () => {
+		const service = createService()
+		const clock = createClock()
+		const breaker = _Circuit.CircuitBreaker(service.fetch, { threshold: 1, coolDown: 1000, clock })
+
+		service.fail = 'Unavailable'
+		await breaker(1)
+		clock.time = 400
+
+		const res = await breaker(2)
+		expect(service.calls).toBe(1)
+		expect(res.tag).toBe('CircuitOpen')
+		if (res.tag !== 'CircuitOpen') throw new Error('Unexpected result')
+
+		expect(res.data).toBeInstanceOf(_Circuit.CircuitOpenError)
+		expect(res.data.retryAfter).toBe(600)
+	})
+
+	test('After `coolDown` a trial success closes the circuit, a trial failure opens it again', async () => {
+		const service = createService()
+		const clock = createClock()
+		const breaker = _Circuit.CircuitBreaker(service.fetch, { threshold: 1, coolDown: 1000, clock })
+
+		service.fail = 'Unavailable'
+		await breaker(1)
+		clock.time = 1000
+
+		// A failed trial opens the circuit again:
+		const trial = await breaker(2)
+		expect(trial.tag).toBe('Unavailable')
+		expect(breaker.state).toBe('open')
+		expect(breaker.metrics().openedAt).toBe(1000)
+
+		// While the trial is running, other calls are rejected:
+		clock.time = 2000
+		service.fail = null
+		const [first, second] = await Promise.all([breaker(3), breaker(4)])
+		expect(first.data).toBe('item-3')
+		expect(second.tag).toBe('CircuitOpen')
+		expect(breaker.state).toBe('closed')
+		expect(breaker.metrics().openedAt).toBeNull()
+	})
+
+	test('Only errors matching `failOn` (tags or predicate) are counted as failures', async () => {
+		const service = createService()
+		const byTag = _Circuit.CircuitBreaker(service.fetch, { threshold: 1, failOn: ['Unavailable'] })
+
+		service.fail = 'NotFound'
+		await byTag(1)
+		expect(byTag.state).toBe('closed')
+		expect(byTag.metrics()).toMatchObject({ successes: 1, failures: 0 })
+
+		service.fail = 'Unavailable'
+		await byTag(2)
+		expect(byTag.state).toBe('open')
+
+		const byPredicate = _Circuit.CircuitBreaker(service.fetch, { threshold: 1, failOn: (error) => error.data > 10 })
+		await byPredicate(5)
+		expect(byPredicate.state).toBe('closed')
+		await byPredicate(15)
+		expect(byPredicate.state).toBe('open')
+	})
+
+	test('Exceptions are counted as failures and rethrown', async () => {
+		const breaker = _Circuit.CircuitBreaker(async () => {
+			throw new Error('Boom')
+		}, { threshold: 1 })
+
+		await expect(breaker()).rejects.toThrow('Boom')
+		expect(breaker.metrics()).toMatchObject({ calls: 1, failures: 1, state: 'open' })
+	})
+
+	test('`onStateChange`, `metrics` and `reset` report and control the state', async () => {
+		const service = createService()
+		const clock = createClock()
+		const events: _Circuit.StateChangeEvent[] = []
+		const breaker = _Circuit.CircuitBreaker(service.fetch, { threshold: 2, coolDown: 100, clock, onStateChange: (event) => events.push(event) })
+
+		service.fail = 'Unavailable'
+		await breaker(1)
+		await breaker(2)
+		await breaker(3)
+
+		expect(breaker.metrics()).toEqual({
+			state: 'open',
+			calls: 2,
+			successes: 0,
+			failures: 2,
+			consecutiveFailures: 2,
+			rejections: 1,
+			openedAt: 0,
+		})
+
+		breaker.reset()
+		expect(breaker.state).toBe('closed')
+		expect(breaker.metrics().consecutiveFailures).toBe(0)
+
+		expect(events.map(({ from, to }) => `${from} -> ${to}`)).toEqual(['closed -> open', 'open -> closed'])
+		expect(events[0].metrics).toMatchObject({ state: 'open', failures: 2 })
+	})
+
+	test('Calls started before `reset` do not change the state of the reset circuit', async () => {
+		const clock = createClock()
+		const pending: Array<() => void> = []
+		const breaker = _Circuit.CircuitBreaker(async (isFailed: boolean, isBlocked = false) => {
+			if (isBlocked) await new Promise<void>((resolve) => pending.push(resolve))
+			return isFailed ? _Result.ErrorFrom(null, 'Unavailable') : _Result.OkFrom(null)
+		}, { threshold: 1, coolDown: 100, clock })
+
+		await breaker(true)
+		clock.time = 100
+
+		// The trial is still running when the circuit is reset:
+		const trial = breaker(true, true)
+		breaker.reset()
+		pending.shift()!()
+		await trial
+		expect(breaker.metrics()).toMatchObject({ state: 'closed', consecutiveFailures: 0, failures: 2 })
+
+		// The stale trial does not let extra calls through the next half-open circuit:
+		await breaker(true)
+		clock.time = 200
+		const first = breaker(false, true)
+		const second = breaker(false)
+		expect((await second).tag).toBe('CircuitOpen')
+
+		pending.shift()!()
+		expect((await first).status).toBe('ok')
+		expect(breaker.state).toBe('closed')
+	})
+
+	test('State changes are passed to `Logger.Engine` with `log`', async () => {
+		const calls: any[] = []
+		_Logger.Engine = async (result) => calls.push(result)
+
+		const service = createService()
+		const breaker = _Circuit.CircuitBreaker(service.fetch, { threshold: 1, log: true })
+		const silent = _Circuit.CircuitBreaker(service.fetch, { threshold: 1, log: false })
+
+		service.fail = 'Unavailable'
+		await breaker(1)
+		await silent(1)
+		breaker.reset()
+
+		_Logger.Engine = null
+
+		expect(calls).toHaveLength(2)
+		expect(calls[0]).toMatchObject({ status: 'error', tag: 'CircuitStateChange', data: { from: 'closed', to: 'open' } })
+		expect(calls[1]).toMatchObject({ status: 'ok', tag: 'CircuitStateChange', data: { from: 'open', to: 'closed' } })
+	})
+})
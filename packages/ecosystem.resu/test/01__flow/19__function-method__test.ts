@@ -0,0 +1,154 @@
+import { describe, test, expect } from 'bun:test'
+import { _Function } from '../../src/modules/flow/partials/public.function'
+import { _Result } from '../../src/modules/result'
+
+// CHECKLIST:
+// - [X] Results returned by the method are returned as is.
+// - [X] Plain values returned by sync and async methods are returned as `Result.Ok`.
+// - [X] `this` of the decorated method is the instance.
+// - [X] Methods returning a promise are detected and resolve to results.
+// - [X] Without `catch`, exceptions and rejections are rethrown.
+// - [X] `catch` converts exceptions and rejections into the tagged error or the result of the function.
+// - [X] `ResultError` returns its result instead of being rethrown or passed to `catch`.
+
+describe('Method (Flow.Function decorator)', () => {
+	class UserService {
+		users: Record<string, string> = { '1': 'Alice' }
+
+		@_Function.Method()
+		count (): _Result.Ok<number> {
+			return _Result.OkFrom(Object.keys(this.users).length, null)
+		}
+
+		@_Function.Method()
+		countPlain (): number {
+			return Object.keys(this.users).length
+		}
+
+		@_Function.Method()
+		async loadPlain (id: string): Promise<string> {
+			await Promise.resolve()
+			return this.users[id]!
+		}
+
+		@_Function.Method()
+		getUser (id: string) {
+			if (!(id in this.users)) return _Result.ErrorFrom(id, 'NotFound')
+			return _Result.OkFrom(this.users[id])
+		}
+
+		@_Function.Method()
+		async loadUser (id: string): Promise<_Result.Ok<string>> {
+			await Promise.resolve()
+			return _Result.OkFrom(this.users[id]!, null)
+		}
+
+		@_Function.Method()
+		removeUser (id: string): _Result.Ok<null> {
+			throw new Error(`Cannot remove ${id}`)
+		}
+
+		@_Function.Method()
+		async archiveUser (id: string): Promise<_Result.Ok<null>> {
+			throw new Error(`Cannot archive ${id}`)
+		}
+
+		@_Function.Method({ catch: 'Unexpected' })
+		saveUser (id: string): _Result.Ok<string> | _Result.Error<unknown, 'Unexpected'> {
+			throw new Error(`Cannot save ${id}`)
+		}
+
+		@_Function.Method({ catch: 'Unexpected' })
+		async syncUser (id: string): Promise<_Result.Ok<string> | _Result.Error<unknown, 'Unexpected'>> {
+			throw new Error(`Cannot sync ${id}`)
+		}
+
+		@_Function.Method({ catch: 'Unexpected' })
+		findUser (id: string): _Result.Ok<string> | _Result.Error<string, 'NotFound'> | _Result.Error<unknown, 'Unexpected'> {
+			return _Result.OkFrom(_Result.Unwrap(_Result.ErrorFrom(id, 'NotFound')), null)
+		}
+
+		@_Function.Method()
+		async findUserAsync (id: string): Promise<_Result.Ok<string> | _Result.Error<string, 'NotFound'>> {
+			await Promise.resolve()
+			return _Result.OkFrom(_Result.Unwrap(_Result.ErrorFrom(id, 'NotFound')), null)
+		}
+
+		@_Function.Method({ catch: (error) => _Result.ErrorFrom((error as Error).message, 'Rejected') })
+		fetchUser (id: string): Promise<_Result.Ok<string> | _Result.Error<string, 'Rejected'>> {
+			return Promise.reject(new Error(`Cannot fetch ${id}`))
+		}
+	}
+
+	const service = new UserService()
+
+	test('Results returned by the method are returned as is', () => {
+		const count = service.count()
+		expect(_Result.IsOk(count)).toBeTrue()
+		expect(count.data).toBe(1)
+
+		const found = service.getUser('1')
+		expect(found.data).toBe('Alice')
+
+		const missing = service.getUser('2')
+		expect(missing.status).toBe('error')
+		expect(missing.tag).toBe('NotFound')
+	})
+
+	test('Plain values returned by sync and async methods are returned as `Result.Ok`', async () => {
+		// The decorator cannot change the declared return type, so the plain type is kept:
+		const counted: unknown = service.countPlain()
+		expect(counted).toMatchObject({ status: 'ok', data: 1, tag: null })
+		expect(_Result.IsOk(counted)).toBeTrue()
+
+		const loaded: unknown = await service.loadPlain('1')
+		expect(loaded).toMatchObject({ status: 'ok', data: 'Alice', tag: null })
+		expect(_Result.IsOk(loaded)).toBeTrue()
+	})
+
+	test('`this` of the decorated method is the instance', () => {
+		const other = new UserService()
+		other.users = { '1': 'Bob', '2': 'Carol' }
+
+		expect(other.count().data).toBe(2)
+		expect(other.getUser('1').data).toBe('Bob')
+	})
+
+	test('Methods returning a promise are detected and resolve to results', async () => {
+		const loading = service.loadUser('1')
+		expect(loading).toBeInstanceOf(Promise)
+
+		const res = await loading
+		expect(_Result.IsOk(res)).toBeTrue()
+		expect(res.data).toBe('Alice')
+	})
+
+	test('Without `catch`, exceptions and rejections are rethrown', async () => {
+		expect(() => service.removeUser('1')).toThrow('Cannot remove 1')
+		await expect(service.archiveUser('1')).rejects.toThrow('Cannot archive 1')
+	})
+
+	test('`catch` converts exceptions and rejections into the tagged error or the result of the function', async () => {
+		const saved = service.saveUser('1')
+		expect(saved.tag).toBe('Unexpected')
+		expect(saved.data).toBeInstanceOf(Error)
+
+		const synced = await service.syncUser('1')
+		expect(synced.tag).toBe('Unexpected')
+		expect((synced.data as Error).message).toBe('Cannot sync 1')
+
+		const fetched = await service.fetchUser('1')
+		expect(fetched.tag).toBe('Rejected')
+		expect(fetched.data).toBe('Cannot fetch 1')
+	})
+
+	test('`ResultError` returns its result instead of being rethrown or passed to `catch`', async () => {
+		const found = service.findUser('2')
+		expect(found.tag).toBe('NotFound')
+		expect(found.data).toBe('2')
+
+		const foundAsync = await service.findUserAsync('3')
+		expect(foundAsync.tag).toBe('NotFound')
+		expect(foundAsync.data).toBe('3')
+	})
+})